@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import { INITIAL_CHECKOUT_STATE, canTransition, checkoutReducer, runCheckout } from "./checkout";
+import { AuthenticationFailedError, CardDeclinedError, NetworkError } from "./errors";
+import type { Card, ChargeResult, CheckoutEvent, CheckoutState, Token } from "./types/openpay";
+
+const card: Card = {
+	card_number: "4111111111111111",
+	holder_name: "Juan Perez",
+	expiration_month: "12",
+	expiration_year: "30",
+	cvv2: "123",
+};
+
+const token = { data: { id: "tok_1" } } as Token;
+const paid: ChargeResult = { id: "ch_1", status: "completed" };
+const pending3ds: ChargeResult = {
+	id: "ch_1",
+	status: "charge_pending",
+	payment_method: { type: "redirect", url: "https://bank.example/3ds" },
+};
+
+const createClient = (createToken: () => Promise<Token> = async () => token) => ({
+	createToken: vi.fn(createToken),
+	getDeviceSessionId: () => "device_1",
+});
+
+/**
+ * Drive runCheckout through the reducer, recording every status it passes
+ */
+const run = async (
+	deps: Omit<Parameters<typeof runCheckout>[1], "client"> & {
+		client?: ReturnType<typeof createClient>;
+	},
+	initial: CheckoutState = INITIAL_CHECKOUT_STATE,
+) => {
+	let state = initial;
+	const statuses: string[] = [];
+	await runCheckout(card, { client: createClient(), ...deps }, (event) => {
+		state = checkoutReducer(state, event);
+		statuses.push(state.status);
+		return state;
+	});
+	return { state, statuses };
+};
+
+describe("checkoutReducer", () => {
+	it("ignores events the current state does not accept", () => {
+		const tokenizing: CheckoutState = { status: "tokenizing" };
+		expect(checkoutReducer(tokenizing, { type: "submit" })).toBe(tokenizing);
+		expect(canTransition({ status: "succeeded", charge: paid }, "submit")).toBe(false);
+		expect(canTransition({ status: "tokenizing" }, "reset")).toBe(true);
+	});
+
+	it("refuses to reset while the charge is in flight", () => {
+		const charging: CheckoutState = { status: "charging", token };
+		expect(checkoutReducer(charging, { type: "reset" })).toBe(charging);
+		expect(checkoutReducer(charging, { type: "charged", charge: paid })).toMatchObject({
+			status: "succeeded",
+		});
+	});
+
+	it("fails a charge that came back neither paid nor pending authentication", () => {
+		const state = checkoutReducer(
+			{ status: "charging", token },
+			{ type: "charged", charge: { id: "ch_1", status: "failed", error_code: 3001 } },
+		);
+		expect(state).toMatchObject({ status: "failed", step: "charging", token });
+		expect(state.status === "failed" && state.error).toBeInstanceOf(CardDeclinedError);
+	});
+
+	it("finishes a payer returning from a full-page 3-D Secure redirect", () => {
+		const event: CheckoutEvent = {
+			type: "authenticated",
+			result: { status: "succeeded", chargeId: "ch_1", charge: paid },
+		};
+		expect(checkoutReducer(INITIAL_CHECKOUT_STATE, event)).toEqual({
+			status: "succeeded",
+			token: undefined,
+			charge: paid,
+		});
+	});
+});
+
+describe("runCheckout", () => {
+	it("validates, tokenizes and charges", async () => {
+		const charge = vi.fn(async () => paid);
+		const { state, statuses } = await run({ charge });
+
+		expect(statuses).toEqual(["validating", "tokenizing", "charging", "succeeded"]);
+		expect(state).toEqual({ status: "succeeded", token, charge: paid });
+		expect(charge).toHaveBeenCalledWith(token, "device_1");
+	});
+
+	it("stops at validation without requesting a token", async () => {
+		const client = createClient();
+		const { state } = await run({
+			client,
+			charge: async () => paid,
+			validate: () => ({ cvv2: "x" }),
+		});
+
+		expect(state).toEqual({
+			status: "failed",
+			step: "validating",
+			error: null,
+			errors: { cvv2: "x" },
+		});
+		expect(client.createToken).not.toHaveBeenCalled();
+	});
+
+	it("records the step a request failed in", async () => {
+		const client = createClient(async () => {
+			throw new NetworkError("offline");
+		});
+		const { state } = await run({ client, charge: async () => paid });
+
+		expect(state).toMatchObject({ status: "failed", step: "tokenizing" });
+		expect(state.status === "failed" && state.error).toBeInstanceOf(NetworkError);
+	});
+
+	it("waits for authentication when the charge needs 3-D Secure", async () => {
+		const { state } = await run({ charge: async () => pending3ds });
+
+		expect(state).toEqual({
+			status: "awaiting_authentication",
+			token,
+			charge: pending3ds,
+			url: "https://bank.example/3ds",
+		});
+	});
+
+	it("runs authenticate and fails a cancelled authentication", async () => {
+		const authenticate = vi.fn(async () => ({ status: "cancelled" as const, chargeId: "ch_1" }));
+		const { state, statuses } = await run({ charge: async () => pending3ds, authenticate });
+
+		expect(authenticate).toHaveBeenCalledWith(pending3ds);
+		expect(statuses.slice(-2)).toEqual(["awaiting_authentication", "failed"]);
+		expect(state.status === "failed" && state.error).toBeInstanceOf(AuthenticationFailedError);
+	});
+
+	it("charges once for a double submit and never after success", async () => {
+		const charge = vi.fn(async () => paid);
+		let state: CheckoutState = INITIAL_CHECKOUT_STATE;
+		const dispatch = (event: CheckoutEvent) => {
+			state = checkoutReducer(state, event);
+			return state;
+		};
+		const deps = { client: createClient(), charge };
+
+		await Promise.all([runCheckout(card, deps, dispatch), runCheckout(card, deps, dispatch)]);
+		await runCheckout(card, deps, dispatch);
+
+		expect(charge).toHaveBeenCalledTimes(1);
+		expect(state.status).toBe("succeeded");
+	});
+
+	it("stops reporting once aborted", async () => {
+		const controller = new AbortController();
+		const dispatch = vi.fn();
+		const charge = vi.fn(async () => paid);
+		const client = createClient(async () => {
+			controller.abort();
+			return token;
+		});
+
+		await runCheckout(card, { client, charge }, dispatch, controller.signal);
+
+		expect(dispatch.mock.calls.map(([event]) => event.type)).toEqual(["submit", "validated"]);
+		expect(charge).not.toHaveBeenCalled();
+	});
+});
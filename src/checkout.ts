@@ -0,0 +1,199 @@
+import {
+	AuthenticationFailedError,
+	type OpenPayRequestError,
+	toOpenPayRequestError,
+} from "./errors";
+import type { OpenPayClient } from "./openpay-client";
+import type {
+	Card,
+	CardFormErrors,
+	ChargeResult,
+	CheckoutEvent,
+	CheckoutState,
+	CheckoutStatus,
+	OpenPayError,
+	ThreeDSecureResult,
+	Token,
+} from "./types/openpay";
+import { getThreeDSecureUrl } from "./utils/three-d-secure";
+
+export const INITIAL_CHECKOUT_STATE: CheckoutState = { status: "idle" };
+
+/**
+ * Events each state accepts. `reset` is refused while charging: the backend charge keeps going,
+ * and a payer back at idle could submit and pay a second time.
+ */
+const TRANSITIONS: Record<CheckoutStatus, CheckoutEvent["type"][]> = {
+	// authenticated: the payer is back from a full-page 3-D Secure redirect
+	idle: ["submit", "authenticated", "reset"],
+	validating: ["validated", "invalid", "reset"],
+	tokenizing: ["tokenized", "error", "reset"],
+	charging: ["charged", "error"],
+	awaiting_authentication: ["authenticated", "error", "reset"],
+	succeeded: ["reset"],
+	failed: ["submit", "reset"],
+};
+
+/**
+ * Charge statuses of a paid charge; `in_progress` is authorized but not yet captured
+ */
+const PAID_STATUSES = ["completed", "in_progress"];
+
+/**
+ * Whether a state accepts an event
+ */
+export const canTransition = (state: CheckoutState, event: CheckoutEvent["type"]): boolean =>
+	TRANSITIONS[state.status].includes(event);
+
+/**
+ * Error of a charge your backend returned as failed instead of throwing
+ */
+const toChargeError = (charge: ChargeResult): OpenPayRequestError =>
+	toOpenPayRequestError({
+		message: charge.error_message || "The charge failed",
+		status: 402,
+		data: {
+			category: "gateway",
+			description: charge.error_message || "The charge failed",
+			error_code: charge.error_code ?? 0,
+			http_code: 402,
+			request_id: "",
+		},
+	} satisfies OpenPayError);
+
+const fromAuthentication = (state: CheckoutState, result: ThreeDSecureResult): CheckoutState => {
+	const token = "token" in state ? state.token : undefined;
+	switch (result.status) {
+		case "succeeded":
+			return { status: "succeeded", token, charge: result.charge };
+		case "failed":
+			return {
+				status: "failed",
+				step: "awaiting_authentication",
+				error: result.error,
+				errors: {},
+				token,
+				charge: result.charge,
+			};
+		default:
+			return {
+				status: "failed",
+				step: "awaiting_authentication",
+				error: new AuthenticationFailedError("3-D Secure authentication was cancelled"),
+				errors: {},
+				token,
+			};
+	}
+};
+
+/**
+ * Checkout state machine: the next state for an event, or the same state when the event is not
+ * accepted, e.g. a second submit while tokenizing
+ */
+export const checkoutReducer = (state: CheckoutState, event: CheckoutEvent): CheckoutState => {
+	if (!canTransition(state, event.type)) return state;
+
+	switch (event.type) {
+		case "reset":
+			return INITIAL_CHECKOUT_STATE;
+		case "submit":
+			return { status: "validating" };
+		case "validated":
+			return { status: "tokenizing" };
+		case "invalid":
+			return { status: "failed", step: "validating", error: null, errors: event.errors };
+		case "tokenized":
+			return { status: "charging", token: event.token };
+		case "charged": {
+			if (state.status !== "charging") return state;
+			const { token } = state;
+			const url = getThreeDSecureUrl(event.charge);
+			if (url && !PAID_STATUSES.includes(event.charge.status)) {
+				return { status: "awaiting_authentication", token, charge: event.charge, url };
+			}
+			return PAID_STATUSES.includes(event.charge.status)
+				? { status: "succeeded", token, charge: event.charge }
+				: {
+						status: "failed",
+						step: "charging",
+						error: toChargeError(event.charge),
+						errors: {},
+						token,
+						charge: event.charge,
+					};
+		}
+		case "authenticated":
+			return fromAuthentication(state, event.result);
+		case "error": {
+			if (state.status === "idle" || state.status === "succeeded" || state.status === "failed") {
+				return state;
+			}
+			return {
+				status: "failed",
+				step: state.status,
+				error: event.error,
+				// The payer can fix the card field OpenPay rejected
+				errors: event.error.field ? { [event.error.field]: event.error.message } : {},
+				...("token" in state && { token: state.token }),
+				...("charge" in state && { charge: state.charge }),
+			};
+		}
+	}
+};
+
+/**
+ * What a checkout run needs; a fake client and charge function are enough outside the browser
+ */
+export interface CheckoutDependencies {
+	client: Pick<OpenPayClient, "createToken" | "getDeviceSessionId">;
+	/** Creates the charge on your backend */
+	charge: (token: Token, deviceSessionId: string) => Promise<ChargeResult>;
+	/** Card field errors; an empty object lets the checkout continue */
+	validate?: (card: Card) => CardFormErrors;
+	/** Runs 3-D Secure for a charge that needs it, e.g. use3DSecure's authenticate */
+	authenticate?: (charge: ChargeResult) => Promise<ThreeDSecureResult>;
+}
+
+/**
+ * Run one checkout attempt, reporting every step to `dispatch`; stops reporting once `signal`
+ * aborts. Without `authenticate` the run ends in awaiting_authentication.
+ * When `dispatch` returns the next state, a run whose submit the state rejected, e.g. while a
+ * charge is in flight or after it succeeded, stops before anything is charged.
+ */
+export const runCheckout = async (
+	card: Card,
+	{ client, charge, validate, authenticate }: CheckoutDependencies,
+	dispatch: ((event: CheckoutEvent) => CheckoutState) | ((event: CheckoutEvent) => void),
+	signal?: AbortSignal,
+): Promise<void> => {
+	const emit = (event: CheckoutEvent) =>
+		(signal?.aborted ? undefined : dispatch(event)) as CheckoutState | undefined;
+
+	const submitted = emit({ type: "submit" });
+	if (signal?.aborted || (submitted && submitted.status !== "validating")) return;
+	const errors = validate?.(card) ?? {};
+	if (Object.keys(errors).length > 0) {
+		emit({ type: "invalid", errors });
+		return;
+	}
+	emit({ type: "validated" });
+
+	let created: ChargeResult;
+	try {
+		const token = await client.createToken(card, { signal });
+		// An abandoned run must not charge, even if its token arrived
+		if (signal?.aborted) return;
+		emit({ type: "tokenized", token });
+		created = await charge(token, client.getDeviceSessionId());
+		if (signal?.aborted) return;
+		emit({ type: "charged", charge: created });
+	} catch (error) {
+		emit({ type: "error", error: toOpenPayRequestError(error) });
+		return;
+	}
+
+	if (authenticate && getThreeDSecureUrl(created) && !PAID_STATUSES.includes(created.status)) {
+		const result = await authenticate(created);
+		emit({ type: "authenticated", result });
+	}
+};
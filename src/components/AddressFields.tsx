@@ -0,0 +1,126 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { AddressField, UseAddressResult } from "@/hooks/useAddress";
+import type { OpenPayClient } from "@/openpay-client";
+import { findAddressState } from "@/utils/address";
+import { type ReactNode, useId } from "react";
+import { getDisplayContext } from "./PaymentDetailList";
+
+export interface AddressFieldsProps {
+	/** State returned by useAddress */
+	address: UseAddressResult;
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Render the second line, e.g. apartment or suite; defaults to true */
+	showLine2?: boolean;
+	/** Render the third line, e.g. a reference for the courier; defaults to false */
+	showLine3?: boolean;
+	className?: string;
+	errorClassName?: string;
+}
+
+const AUTOCOMPLETE: Record<AddressField, string> = {
+	line1: "address-line1",
+	line2: "address-line2",
+	line3: "address-line3",
+	city: "address-level2",
+	state: "address-level1",
+	postal_code: "postal-code",
+};
+
+/**
+ * Billing address inputs with the state or department list and postal code rules of the country
+ */
+export const AddressFields = ({
+	address,
+	client: clientOverride,
+	showLine2 = true,
+	showLine3 = false,
+	className,
+	errorClassName,
+}: AddressFieldsProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const { translate } = getDisplayContext(clientOverride ?? contextClient);
+	const idPrefix = useId();
+	const { rules, states } = address;
+
+	const renderField = (field: AddressField, label: string, control: ReactNode) => {
+		const error = address.touched[field] ? address.errors[field] : undefined;
+		return (
+			<div key={field} data-field={field}>
+				<label htmlFor={`${idPrefix}-${field}`}>{label}</label>
+				{control}
+				{error && (
+					<span id={`${idPrefix}-${field}-error`} className={errorClassName} role="alert">
+						{error}
+					</span>
+				)}
+			</div>
+		);
+	};
+
+	const getInputProps = (field: AddressField) => ({
+		...address.getFieldProps(field),
+		id: `${idPrefix}-${field}`,
+		autoComplete: AUTOCOMPLETE[field],
+		"aria-describedby":
+			address.touched[field] && address.errors[field] ? `${idPrefix}-${field}-error` : undefined,
+	});
+
+	const stateValue = findAddressState(address.values.state, address.country)?.name ?? "";
+
+	return (
+		<fieldset className={className}>
+			<legend>{translate("address.legend")}</legend>
+			{renderField(
+				"line1",
+				translate("address.line1.label"),
+				<input type="text" {...getInputProps("line1")} />,
+			)}
+			{showLine2 &&
+				renderField(
+					"line2",
+					translate("address.line2.label"),
+					<input type="text" {...getInputProps("line2")} />,
+				)}
+			{showLine3 &&
+				renderField(
+					"line3",
+					translate("address.line3.label"),
+					<input type="text" {...getInputProps("line3")} />,
+				)}
+			{renderField(
+				"city",
+				translate("address.city.label"),
+				<input type="text" {...getInputProps("city")} />,
+			)}
+			{renderField(
+				"state",
+				translate(
+					rules.stateLabel === "department" ? "address.department.label" : "address.state.label",
+				),
+				states.length > 0 ? (
+					<select {...getInputProps("state")} value={stateValue}>
+						<option value="">{translate("address.state.placeholder")}</option>
+						{states.map((state) => (
+							<option key={state.code} value={state.name}>
+								{state.name}
+							</option>
+						))}
+					</select>
+				) : (
+					<input type="text" {...getInputProps("state")} />
+				),
+			)}
+			{renderField(
+				"postal_code",
+				translate("address.postal_code.label"),
+				<input
+					type="text"
+					inputMode="numeric"
+					maxLength={rules.postalCodeLength}
+					{...getInputProps("postal_code")}
+				/>,
+			)}
+		</fieldset>
+	);
+};
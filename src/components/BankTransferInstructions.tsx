@@ -0,0 +1,45 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { PaymentInstructionsCharge } from "@/types/openpay";
+import { bankTransferPaymentMethodSchema } from "@/utils/validator";
+import { PaymentDetailList, getDisplayContext } from "./PaymentDetailList";
+
+export interface BankTransferInstructionsProps {
+	/** Bank transfer charge returned by your backend */
+	charge: PaymentInstructionsCharge;
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	className?: string;
+}
+
+/**
+ * CLABE, bank, reference, amount and due date for paying a charge by SPEI transfer
+ */
+export const BankTransferInstructions = ({
+	charge,
+	client: clientOverride,
+	className,
+}: BankTransferInstructionsProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const paymentMethod = bankTransferPaymentMethodSchema.safeParse(charge.payment_method);
+	if (!paymentMethod.success) return null;
+
+	const { translate } = getDisplayContext(client);
+	const { clabe, bank, name } = paymentMethod.data;
+
+	return (
+		<div className={className} data-openpay-payment="bank_account">
+			<p>{translate("bank_transfer.instructions")}</p>
+			<PaymentDetailList
+				charge={charge}
+				client={client}
+				details={[
+					[translate("bank_transfer.clabe"), <code key="clabe">{clabe}</code>],
+					[translate("bank_transfer.bank"), bank],
+					[translate("payment.reference"), <code key="reference">{name}</code>],
+				]}
+			/>
+		</div>
+	);
+};
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { OpenPayClient } from "@/openpay-client";
+import { TEST_CARDS, createFakeOpenPay, createFakeScriptLoader } from "@/testing";
+import { act } from "react";
+import { type Root, createRoot } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CardNumberInput } from "./CardNumberInput";
+import { CvvInput } from "./CvvInput";
+import { ExpiryInput } from "./ExpiryInput";
+import { HolderNameInput } from "./HolderNameInput";
+
+declare global {
+	var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+	globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+	container = document.createElement("div");
+	document.body.appendChild(container);
+	root = createRoot(container);
+});
+
+afterEach(() => {
+	act(() => root.unmount());
+	container.remove();
+	Reflect.deleteProperty(window, "OpenPay");
+});
+
+describe("CardNumberInput", () => {
+	it("shows the number grouped and hands OpenPay.js digits only", async () => {
+		const fake = createFakeOpenPay();
+		const client = new OpenPayClient({
+			merchantId: "m_test",
+			publicKey: "pk_test",
+			isSandbox: true,
+			loadScript: createFakeScriptLoader(fake),
+		});
+		const year = String((new Date().getFullYear() + 1) % 100).padStart(2, "0");
+
+		act(() =>
+			root.render(
+				<form id="payment">
+					<CardNumberInput client={client} defaultValue={TEST_CARDS.visa} />
+					<HolderNameInput client={client} defaultValue="Juan Perez" />
+					<ExpiryInput client={client} defaultValue={`12/${year}`} />
+					<CvvInput client={client} defaultValue="123" cardNumber={TEST_CARDS.visa} />
+				</form>,
+			),
+		);
+
+		const visible = container.querySelector<HTMLInputElement>("input[data-card-type]");
+		expect(visible?.value).toBe("4111 1111 1111 1111");
+		expect(visible?.hasAttribute("data-openpay-card")).toBe(false);
+
+		await client.createTokenFromForm("payment");
+
+		expect(fake.tokenRequests[0]).toMatchObject({
+			card_number: TEST_CARDS.visa,
+			holder_name: "Juan Perez",
+			expiration_month: "12",
+			expiration_year: year,
+			cvv2: "123",
+		});
+	});
+});
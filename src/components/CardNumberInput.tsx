@@ -0,0 +1,65 @@
+import { type CardInputProps, useCardField } from "@/hooks/useCardField";
+import {
+	CARD_FORMATS,
+	digitsOnly,
+	formatCardNumber,
+	getMaxCardLength,
+	guessCardType,
+} from "@/utils/formatter";
+import { useId } from "react";
+import { FieldStatusMessage, getDescribedBy } from "./FieldStatusMessage";
+
+/**
+ * Card number input grouping digits by the detected card type
+ */
+export const CardNumberInput = ({
+	value,
+	defaultValue,
+	onChange,
+	client,
+	showStatus = true,
+	statusClassName,
+	id,
+	...inputProps
+}: CardInputProps) => {
+	const generatedId = useId();
+	const inputId = id ?? generatedId;
+	const statusId = `${inputId}-status`;
+
+	const field = useCardField({
+		value,
+		defaultValue,
+		client,
+		format: (input) => formatCardNumber(input),
+		validate: (card, formatted, options) =>
+			card.fields.validateField("card_number", digitsOnly(formatted), undefined, options),
+		onChange,
+	});
+
+	const cardType = guessCardType(field.value);
+	const maxDigits = getMaxCardLength(cardType);
+	const maxLength = maxDigits + CARD_FORMATS[cardType].gaps.filter((gap) => gap < maxDigits).length;
+
+	return (
+		<>
+			<input
+				type="text"
+				inputMode="numeric"
+				autoComplete="cc-number"
+				{...inputProps}
+				id={inputId}
+				value={field.value}
+				onChange={field.handleChange}
+				maxLength={maxLength}
+				data-card-type={cardType}
+				aria-invalid={field.status.isDirty && !field.status.isValid}
+				aria-describedby={getDescribedBy(statusId, showStatus, inputProps["aria-describedby"])}
+			/>
+			{/* OpenPay.js reads this input; the visible one holds spaces between digit groups */}
+			<input type="hidden" data-openpay-card="card_number" value={digitsOnly(field.value)} />
+			{showStatus && (
+				<FieldStatusMessage id={statusId} status={field.status} className={statusClassName} />
+			)}
+		</>
+	);
+};
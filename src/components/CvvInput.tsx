@@ -0,0 +1,60 @@
+import { type CardInputProps, useCardField } from "@/hooks/useCardField";
+import { CARD_FORMATS, digitsOnly, formatCvv, guessCardType } from "@/utils/formatter";
+import { useId } from "react";
+import { FieldStatusMessage, getDescribedBy } from "./FieldStatusMessage";
+
+export interface CvvInputProps extends CardInputProps {
+	/** Card number the CVV belongs to; determines the required length */
+	cardNumber?: string;
+}
+
+/**
+ * CVV input limited to the length required by the card type
+ */
+export const CvvInput = ({
+	cardNumber = "",
+	value,
+	defaultValue,
+	onChange,
+	client,
+	showStatus = true,
+	statusClassName,
+	id,
+	...inputProps
+}: CvvInputProps) => {
+	const generatedId = useId();
+	const inputId = id ?? generatedId;
+	const statusId = `${inputId}-status`;
+	const cardType = guessCardType(cardNumber);
+
+	const field = useCardField({
+		value,
+		defaultValue,
+		client,
+		format: (input) => formatCvv(input, cardType),
+		validate: (card, formatted, options) =>
+			card.fields.validateField("cvv2", formatted, digitsOnly(cardNumber) || undefined, options),
+		onChange,
+	});
+
+	return (
+		<>
+			<input
+				type="text"
+				inputMode="numeric"
+				autoComplete="cc-csc"
+				{...inputProps}
+				id={inputId}
+				value={field.value}
+				onChange={field.handleChange}
+				maxLength={CARD_FORMATS[cardType].cvvLength}
+				data-openpay-card="cvv2"
+				aria-invalid={field.status.isDirty && !field.status.isValid}
+				aria-describedby={getDescribedBy(statusId, showStatus, inputProps["aria-describedby"])}
+			/>
+			{showStatus && (
+				<FieldStatusMessage id={statusId} status={field.status} className={statusClassName} />
+			)}
+		</>
+	);
+};
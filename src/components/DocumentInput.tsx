@@ -0,0 +1,132 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { CardFieldStatus, CustomerDocument, DocumentType } from "@/types/openpay";
+import { DOCUMENT_FORMATS, formatDocumentNumber } from "@/utils/formatter";
+import { createGenericDocumentSchema } from "@/utils/validator";
+import { type ChangeEvent, type InputHTMLAttributes, useId, useMemo, useState } from "react";
+import { FieldStatusMessage, getDescribedBy } from "./FieldStatusMessage";
+import { getDisplayContext } from "./PaymentDetailList";
+
+export interface DocumentInputProps
+	extends Omit<InputHTMLAttributes<HTMLInputElement>, "value" | "defaultValue" | "onChange"> {
+	/** Controlled document */
+	value?: CustomerDocument;
+	/** Initial document for uncontrolled usage; the type defaults to the first accepted one */
+	defaultValue?: Partial<CustomerDocument>;
+	onChange?: (document: CustomerDocument, status: CardFieldStatus) => void;
+	/** Defaults to the document types accepted in the client's country */
+	types?: DocumentType[];
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Render the field status message below the input */
+	showStatus?: boolean;
+	statusClassName?: string;
+	selectClassName?: string;
+}
+
+/**
+ * Document type select and number input whose format, length and check digit follow the type
+ */
+export const DocumentInput = ({
+	value,
+	defaultValue,
+	onChange,
+	types: typesOverride,
+	client: clientOverride,
+	showStatus = true,
+	statusClassName,
+	selectClassName,
+	id,
+	...inputProps
+}: DocumentInputProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const { translate, country } = getDisplayContext(clientOverride ?? contextClient);
+	const types = typesOverride ?? country.documentTypes;
+	const schema = useMemo(() => createGenericDocumentSchema(translate), [translate]);
+
+	const generatedId = useId();
+	const inputId = id ?? generatedId;
+	const statusId = `${inputId}-status`;
+
+	const [innerValue, setInnerValue] = useState<CustomerDocument>(() => {
+		const type = defaultValue?.type ?? types[0] ?? "passport";
+		return { type, number: formatDocumentNumber(defaultValue?.number ?? "", type) };
+	});
+	const [isDirty, setIsDirty] = useState(false);
+	const document = value ?? innerValue;
+	const format = DOCUMENT_FORMATS[document.type];
+
+	const getStatus = (next: CustomerDocument, dirty: boolean): CardFieldStatus => {
+		const result = schema.safeParse(next);
+		return {
+			isValid: result.success,
+			message: result.success
+				? translate("document.number.valid", {
+						document: translate(DOCUMENT_FORMATS[next.type].label),
+					})
+				: next.number.length > 0
+					? (result.error.issues[0]?.message ?? "")
+					: "",
+			isDirty: dirty,
+			value: next.number,
+		};
+	};
+
+	const status = getStatus(document, isDirty);
+
+	const change = (next: CustomerDocument, dirty: boolean) => {
+		if (value === undefined) {
+			setInnerValue(next);
+		}
+		setIsDirty(dirty);
+		onChange?.(next, getStatus(next, dirty));
+	};
+
+	const handleTypeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+		const type = event.target.value as DocumentType;
+		// Keep what was typed, cut to the new type's format
+		change({ type, number: formatDocumentNumber(document.number, type) }, isDirty);
+	};
+
+	const handleNumberChange = (event: ChangeEvent<HTMLInputElement>) => {
+		change(
+			{ type: document.type, number: formatDocumentNumber(event.target.value, document.type) },
+			true,
+		);
+	};
+
+	return (
+		<>
+			<select
+				className={selectClassName}
+				value={document.type}
+				onChange={handleTypeChange}
+				aria-label={translate("document.type.label")}
+				disabled={types.length < 2 || inputProps.disabled}
+			>
+				{types.map((type) => (
+					<option key={type} value={type}>
+						{translate(DOCUMENT_FORMATS[type].label)}
+					</option>
+				))}
+			</select>
+			<input
+				type="text"
+				inputMode={format.numeric ? "numeric" : "text"}
+				autoComplete="off"
+				autoCapitalize="characters"
+				{...inputProps}
+				id={inputId}
+				value={document.number}
+				onChange={handleNumberChange}
+				maxLength={format.maxLength}
+				data-document-type={document.type}
+				aria-invalid={status.isDirty && !status.isValid}
+				aria-describedby={getDescribedBy(statusId, showStatus, inputProps["aria-describedby"])}
+			/>
+			{showStatus && (
+				<FieldStatusMessage id={statusId} status={status} className={statusClassName} />
+			)}
+		</>
+	);
+};
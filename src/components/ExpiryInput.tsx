@@ -0,0 +1,59 @@
+import { type CardInputProps, useCardField } from "@/hooks/useCardField";
+import { formatExpiry, parseExpiry } from "@/utils/formatter";
+import { useId } from "react";
+import { FieldStatusMessage, getDescribedBy } from "./FieldStatusMessage";
+
+/**
+ * Expiration date input formatted as MM/YY.
+ * Mirrors the month and year into hidden `data-openpay-card` inputs for createTokenFromForm.
+ */
+export const ExpiryInput = ({
+	value,
+	defaultValue,
+	onChange,
+	client,
+	showStatus = true,
+	statusClassName,
+	id,
+	...inputProps
+}: CardInputProps) => {
+	const generatedId = useId();
+	const inputId = id ?? generatedId;
+	const statusId = `${inputId}-status`;
+
+	const field = useCardField({
+		value,
+		defaultValue,
+		client,
+		format: formatExpiry,
+		validate: (card, formatted, options) => {
+			const expiry = parseExpiry(formatted);
+			return card.fields.validateField("expiration_month", expiry.month, expiry.year, options);
+		},
+		onChange,
+	});
+	const { month, year } = parseExpiry(field.value);
+
+	return (
+		<>
+			<input
+				type="text"
+				inputMode="numeric"
+				autoComplete="cc-exp"
+				placeholder="MM/YY"
+				{...inputProps}
+				id={inputId}
+				value={field.value}
+				onChange={field.handleChange}
+				maxLength={5}
+				aria-invalid={field.status.isDirty && !field.status.isValid}
+				aria-describedby={getDescribedBy(statusId, showStatus, inputProps["aria-describedby"])}
+			/>
+			<input type="hidden" data-openpay-card="expiration_month" value={month} />
+			<input type="hidden" data-openpay-card="expiration_year" value={year} />
+			{showStatus && (
+				<FieldStatusMessage id={statusId} status={field.status} className={statusClassName} />
+			)}
+		</>
+	);
+};
@@ -0,0 +1,33 @@
+import type { CardFieldStatus } from "@/types/openpay";
+
+interface FieldStatusMessageProps {
+	id: string;
+	status: CardFieldStatus;
+	className?: string;
+}
+
+/**
+ * `aria-describedby` of an input: the consumer's own ids plus the status message when shown
+ * @internal
+ */
+export const getDescribedBy = (
+	statusId: string,
+	showStatus: boolean,
+	describedBy?: string,
+): string | undefined =>
+	[describedBy, showStatus ? statusId : undefined].filter(Boolean).join(" ") || undefined;
+
+/**
+ * Live region announcing the validation message of a card input
+ * @internal
+ */
+export const FieldStatusMessage = ({ id, status, className }: FieldStatusMessageProps) => (
+	<span
+		id={id}
+		className={className}
+		role={status.isDirty && !status.isValid ? "alert" : "status"}
+		data-valid={status.isValid}
+	>
+		{status.isDirty ? status.message : ""}
+	</span>
+);
@@ -0,0 +1,52 @@
+import { type CardInputProps, useCardField } from "@/hooks/useCardField";
+import { formatHolderName } from "@/utils/formatter";
+import { useId } from "react";
+import { FieldStatusMessage, getDescribedBy } from "./FieldStatusMessage";
+
+/**
+ * Card holder name input
+ */
+export const HolderNameInput = ({
+	value,
+	defaultValue,
+	onChange,
+	client,
+	showStatus = true,
+	statusClassName,
+	id,
+	...inputProps
+}: CardInputProps) => {
+	const generatedId = useId();
+	const inputId = id ?? generatedId;
+	const statusId = `${inputId}-status`;
+
+	const field = useCardField({
+		value,
+		defaultValue,
+		client,
+		format: formatHolderName,
+		validate: (card, formatted, options) =>
+			card.fields.validateField("holder_name", formatted.trim(), undefined, options),
+		onChange,
+	});
+
+	return (
+		<>
+			<input
+				type="text"
+				autoComplete="cc-name"
+				{...inputProps}
+				id={inputId}
+				value={field.value}
+				onChange={field.handleChange}
+				maxLength={100}
+				data-openpay-card="holder_name"
+				aria-invalid={field.status.isDirty && !field.status.isValid}
+				aria-describedby={getDescribedBy(statusId, showStatus, inputProps["aria-describedby"])}
+			/>
+			{showStatus && (
+				<FieldStatusMessage id={statusId} status={field.status} className={statusClassName} />
+			)}
+		</>
+	);
+};
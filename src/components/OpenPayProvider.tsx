@@ -0,0 +1,21 @@
+import { OpenPayContext } from "@/context/OpenPayContext";
+import { createOpenPay } from "@/openpay-client";
+import type { OpenPayConfig } from "@/types/openpay";
+import { type ReactNode, useEffect, useState } from "react";
+
+export interface OpenPayProviderProps {
+	/** Read once on mount; remount the provider (e.g. with a `key`) to apply a new config */
+	config: OpenPayConfig;
+	children?: ReactNode;
+}
+
+/**
+ * Owns a single OpenPayClient and shares it with every descendant hook and component
+ */
+export const OpenPayProvider = ({ config, children }: OpenPayProviderProps) => {
+	const [client] = useState(() => createOpenPay(config));
+
+	useEffect(() => client.retain(), [client]);
+
+	return <OpenPayContext.Provider value={client}>{children}</OpenPayContext.Provider>;
+};
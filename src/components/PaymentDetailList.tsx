@@ -0,0 +1,60 @@
+import { defaultTranslate } from "@/i18n";
+import type { OpenPayClient } from "@/openpay-client";
+import type { PaymentInstructionsCharge } from "@/types/openpay";
+import { getCountryConfig } from "@/utils/countries";
+import { formatAmount } from "@/utils/formatter";
+import type { ReactNode } from "react";
+
+interface PaymentDetailListProps {
+	charge: PaymentInstructionsCharge;
+	client: OpenPayClient | null;
+	/** Rows shown before the amount and due date */
+	details: [label: string, value: ReactNode][];
+}
+
+/**
+ * Translation, locale and country of a client, or the defaults outside of a provider
+ * @internal
+ */
+export const getDisplayContext = (client: OpenPayClient | null) => ({
+	translate: client?.translate ?? defaultTranslate,
+	locale: client?.locale,
+	country: client?.getCountryConfig() ?? getCountryConfig(),
+});
+
+/**
+ * Label/value list of a cash or transfer payment, followed by its amount and due date
+ * @internal
+ */
+export const PaymentDetailList = ({ charge, client, details }: PaymentDetailListProps) => {
+	const { translate, locale, country } = getDisplayContext(client);
+	const rows: [string, ReactNode][] = [
+		...details,
+		[
+			translate("payment.amount"),
+			formatAmount(charge.amount, charge.currency ?? country.currency, locale),
+		],
+	];
+	if (charge.due_date) {
+		rows.push([
+			translate("payment.due_date"),
+			<time key="due" dateTime={charge.due_date}>
+				{new Date(charge.due_date).toLocaleString(locale, {
+					dateStyle: "medium",
+					timeStyle: "short",
+				})}
+			</time>,
+		]);
+	}
+
+	return (
+		<dl>
+			{rows.map(([label, value]) => (
+				<div key={label}>
+					<dt>{label}</dt>
+					<dd>{value}</dd>
+				</div>
+			))}
+		</dl>
+	);
+};
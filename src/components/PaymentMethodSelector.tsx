@@ -0,0 +1,71 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { PaymentMethod } from "@/types/openpay";
+import { type ReactNode, useId, useState } from "react";
+import { getDisplayContext } from "./PaymentDetailList";
+
+export interface PaymentMethodSelectorProps {
+	/** Controlled selection */
+	value?: PaymentMethod;
+	/** Initial selection for uncontrolled usage, defaults to the first method */
+	defaultValue?: PaymentMethod;
+	onChange?: (method: PaymentMethod) => void;
+	/** Defaults to the methods available in the client's country */
+	methods?: PaymentMethod[];
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Radio group name, generated when omitted */
+	name?: string;
+	className?: string;
+	/** Renders the flow of the selected method: card form, store or bank instructions */
+	children?: (method: PaymentMethod) => ReactNode;
+}
+
+/**
+ * Radio group switching between card, store and bank transfer flows
+ */
+export const PaymentMethodSelector = ({
+	value,
+	defaultValue,
+	onChange,
+	methods: methodsOverride,
+	client: clientOverride,
+	name,
+	className,
+	children,
+}: PaymentMethodSelectorProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const { translate, country } = getDisplayContext(clientOverride ?? contextClient);
+	const methods = methodsOverride ?? country.paymentMethods;
+	const generatedName = useId();
+	const [innerValue, setInnerValue] = useState(() => defaultValue ?? methods[0] ?? "card");
+	const selected = value ?? innerValue;
+
+	const select = (method: PaymentMethod) => {
+		if (value === undefined) {
+			setInnerValue(method);
+		}
+		onChange?.(method);
+	};
+
+	return (
+		<div className={className}>
+			<fieldset>
+				<legend>{translate("payment_method.legend")}</legend>
+				{methods.map((method) => (
+					<label key={method}>
+						<input
+							type="radio"
+							name={name ?? generatedName}
+							value={method}
+							checked={selected === method}
+							onChange={() => select(method)}
+						/>
+						{translate(`payment_method.${method}`)}
+					</label>
+				))}
+			</fieldset>
+			{children?.(selected)}
+		</div>
+	);
+};
@@ -0,0 +1,75 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { SavedCard } from "@/types/openpay";
+import { getCardBrand } from "@/utils/card-brands";
+import { getCardExpiryStatus, getLastFour, getSavedCardType } from "@/utils/saved-cards";
+import { useId } from "react";
+import { getDisplayContext } from "./PaymentDetailList";
+
+export interface SavedCardListProps {
+	cards: SavedCard[];
+	selectedCardId?: string | null;
+	onSelect?: (card: SavedCard) => void;
+	/** Renders a remove button per card when provided */
+	onDelete?: (card: SavedCard) => void;
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Radio group name, generated when omitted */
+	name?: string;
+	className?: string;
+}
+
+/**
+ * Stored cards with brand, last four digits and expiry status; expired cards cannot be selected
+ */
+export const SavedCardList = ({
+	cards,
+	selectedCardId,
+	onSelect,
+	onDelete,
+	client: clientOverride,
+	name,
+	className,
+}: SavedCardListProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const { translate } = getDisplayContext(clientOverride ?? contextClient);
+	const generatedName = useId();
+
+	return (
+		<fieldset className={className}>
+			<legend>{translate("saved_card.legend")}</legend>
+			{cards.map((card) => {
+				const expiryStatus = getCardExpiryStatus(card.expiration_month, card.expiration_year);
+				const brand = getCardBrand(getSavedCardType(card))?.displayName ?? card.brand;
+				const expiry = `${card.expiration_month.padStart(2, "0")}/${card.expiration_year.slice(-2)}`;
+
+				return (
+					<div key={card.id} data-expiry-status={expiryStatus}>
+						<label>
+							<input
+								type="radio"
+								name={name ?? generatedName}
+								value={card.id}
+								checked={selectedCardId === card.id}
+								disabled={expiryStatus === "expired"}
+								onChange={() => onSelect?.(card)}
+							/>
+							{translate("saved_card.label", { brand, last4: getLastFour(card.card_number) })}
+							<span>
+								{expiryStatus === "expired"
+									? translate("saved_card.expired")
+									: translate("saved_card.expires", { expiry })}
+								{expiryStatus === "expiring_soon" && ` · ${translate("saved_card.expiring_soon")}`}
+							</span>
+						</label>
+						{onDelete && (
+							<button type="button" onClick={() => onDelete(card)}>
+								{translate("saved_card.delete")}
+							</button>
+						)}
+					</div>
+				);
+			})}
+		</fieldset>
+	);
+};
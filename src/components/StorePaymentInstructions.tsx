@@ -0,0 +1,51 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { PaymentInstructionsCharge } from "@/types/openpay";
+import { storePaymentMethodSchema } from "@/utils/validator";
+import { PaymentDetailList, getDisplayContext } from "./PaymentDetailList";
+
+export interface StorePaymentInstructionsProps {
+	/** Store charge returned by your backend */
+	charge: PaymentInstructionsCharge;
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	className?: string;
+}
+
+/**
+ * Reference, barcode, amount and due date the payer needs to pay a store charge in cash
+ */
+export const StorePaymentInstructions = ({
+	charge,
+	client: clientOverride,
+	className,
+}: StorePaymentInstructionsProps) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const paymentMethod = storePaymentMethodSchema.safeParse(charge.payment_method);
+	if (!paymentMethod.success) return null;
+
+	const { translate, country } = getDisplayContext(client);
+	const { reference, barcode_url, url_store } = paymentMethod.data;
+
+	return (
+		<div className={className} data-openpay-payment="store">
+			<p>
+				{translate("store.instructions", {
+					provider: country.storeProvider ?? translate("payment_method.store"),
+				})}
+			</p>
+			<PaymentDetailList
+				charge={charge}
+				client={client}
+				details={[[translate("payment.reference"), <code key="reference">{reference}</code>]]}
+			/>
+			{barcode_url && <img src={barcode_url} alt={translate("store.barcode")} />}
+			{url_store && (
+				<a href={url_store} target="_blank" rel="noopener noreferrer">
+					{translate("store.find_store")}
+				</a>
+			)}
+		</div>
+	);
+};
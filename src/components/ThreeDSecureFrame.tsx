@@ -0,0 +1,96 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import { defaultTranslate } from "@/i18n";
+import { type CSSProperties, useEffect } from "react";
+
+export interface ThreeDSecureFrameProps {
+	/** Authentication page; nothing is rendered while null */
+	url: string | null;
+	/** "modal" overlays the page and can be dismissed, "iframe" renders in place */
+	mode?: "iframe" | "modal";
+	onLoad: (frame: HTMLIFrameElement) => void;
+	onCancel: () => void;
+	className?: string;
+	frameClassName?: string;
+}
+
+const overlayStyle: CSSProperties = {
+	position: "fixed",
+	inset: 0,
+	width: "100%",
+	height: "100%",
+	maxWidth: "none",
+	maxHeight: "none",
+	margin: 0,
+	padding: 0,
+	border: 0,
+	zIndex: 2147483000,
+	display: "flex",
+	flexDirection: "column",
+	alignItems: "center",
+	justifyContent: "center",
+	background: "rgba(0, 0, 0, 0.5)",
+};
+
+const frameStyle: CSSProperties = {
+	width: "100%",
+	maxWidth: 500,
+	height: 600,
+	maxHeight: "90vh",
+	border: 0,
+	background: "#fff",
+};
+
+/**
+ * Shows the issuer's 3-D Secure page; pass `frameProps` from use3DSecure
+ */
+export const ThreeDSecureFrame = ({
+	url,
+	mode = "modal",
+	onLoad,
+	onCancel,
+	className,
+	frameClassName,
+}: ThreeDSecureFrameProps) => {
+	const translate = useOptionalOpenPayClient()?.translate ?? defaultTranslate;
+	const isModal = mode === "modal";
+
+	useEffect(() => {
+		if (!url || !isModal) return;
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "Escape") onCancel();
+		};
+		document.addEventListener("keydown", handleKeyDown);
+		return () => document.removeEventListener("keydown", handleKeyDown);
+	}, [url, isModal, onCancel]);
+
+	if (!url) return null;
+
+	const frame = (
+		<iframe
+			src={url}
+			title={translate("three_d_secure.title")}
+			className={frameClassName}
+			style={frameClassName ? undefined : frameStyle}
+			onLoad={(event) => onLoad(event.currentTarget)}
+		/>
+	);
+
+	if (!isModal) {
+		return <div className={className}>{frame}</div>;
+	}
+
+	return (
+		<dialog
+			open
+			aria-modal="true"
+			aria-label={translate("three_d_secure.title")}
+			className={className}
+			style={className ? undefined : overlayStyle}
+		>
+			{frame}
+			<button type="button" onClick={onCancel}>
+				{translate("three_d_secure.cancel")}
+			</button>
+		</dialog>
+	);
+};
@@ -0,0 +1,9 @@
+import type { OpenPayClient } from "@/openpay-client";
+import { createContext, useContext } from "react";
+
+export const OpenPayContext = createContext<OpenPayClient | null>(null);
+
+/**
+ * Returns the client owned by the nearest OpenPayProvider, or null outside of one
+ */
+export const useOptionalOpenPayClient = (): OpenPayClient | null => useContext(OpenPayContext);
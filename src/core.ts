@@ -0,0 +1,138 @@
+/**
+ * Server-safe entry: schemas, validators and types only.
+ * Nothing here touches window, document or React.
+ */
+export {
+	addressSchema,
+	cardSchema,
+	documentSchema,
+	tokenSchema,
+	bankTransferPaymentMethodSchema,
+	paymentMethodDetailsSchema,
+	storePaymentMethodSchema,
+	webhookEventSchema,
+	unknownWebhookEventSchema,
+	isKnownWebhookEventType,
+	webhookTransactionSchema,
+	createAddressSchema,
+	createCardSchema,
+	createDocumentSchema,
+	createGenericAddressSchema,
+	createGenericCardSchema,
+	createGenericDocumentSchema,
+	DOCUMENT_TYPES,
+	validators,
+} from "./utils/validator";
+export type {
+	ValidateAddressResult,
+	ValidateCardResult,
+	ValidateDocumentResult,
+	ValidateTokenResult,
+	WebhookEvent,
+	WebhookEventType,
+	UnknownWebhookEvent,
+	WebhookTransaction,
+} from "./utils/validator";
+export {
+	CARD_BRANDS,
+	UNKNOWN_BRAND,
+	detectCardBrand,
+	detectCardType,
+	getCardBrand,
+} from "./utils/card-brands";
+export type { CardBrand } from "./utils/card-brands";
+export { localCardEngine, normalizeCardType } from "./utils/card-engine";
+export { COUNTRIES, getCountryConfig, isBrandSupported } from "./utils/countries";
+export { findAddressState, formatPostalCode } from "./utils/address";
+export {
+	CARD_FORMATS,
+	DOCUMENT_FORMATS,
+	formatAmount,
+	formatCardNumber,
+	formatCvv,
+	formatDocumentNumber,
+	formatExpiry,
+	guessCardType,
+	parseExpiry,
+} from "./utils/formatter";
+export type { CardFormat, DocumentFormat } from "./utils/formatter";
+export {
+	createChargePayload,
+	getInstallmentPlans,
+	isInstallmentEligible,
+} from "./utils/installments";
+export { getCardExpiryStatus, getLastFour, getSavedCardType } from "./utils/saved-cards";
+export {
+	getThreeDSecureResult,
+	getThreeDSecureUrl,
+	parseThreeDSecureReturn,
+} from "./utils/three-d-secure";
+export {
+	OpenPayRequestError,
+	CardDeclinedError,
+	CardExpiredError,
+	InsufficientFundsError,
+	FraudSuspectedError,
+	AuthenticationFailedError,
+	InvalidRequestError,
+	NetworkError,
+	ScriptLoadError,
+	ERROR_CODES,
+	toOpenPayRequestError,
+} from "./errors";
+export type { OpenPayErrorKind } from "./errors";
+export { redactCard, redactEvent } from "./telemetry";
+export { INITIAL_CHECKOUT_STATE, canTransition, checkoutReducer, runCheckout } from "./checkout";
+export type { CheckoutDependencies } from "./checkout";
+export { CATALOGS, createTranslator } from "./i18n";
+export type {
+	BuiltInLocale,
+	Locale,
+	MessageCatalog,
+	MessageKey,
+	MessageOverrides,
+	MessageParams,
+	Translate,
+} from "./i18n";
+
+export type {
+	OpenPayConfig,
+	Address,
+	AddressRules,
+	CustomerDocument,
+	DocumentType,
+	AddressState,
+	Card,
+	Token,
+	CardValidationResult,
+	OpenPayError,
+	CardType,
+	CardEngine,
+	CardFieldStatus,
+	FieldStatusRecord,
+	CardFormErrors,
+	CountryCode,
+	CountryConfig,
+	Currency,
+	ChargePayload,
+	InstallmentPlan,
+	InstallmentRules,
+	PaymentMethod,
+	PaymentMethodDetails,
+	SavedCard,
+	SavedCardExpiryStatus,
+	SavedCardUpdate,
+	PaymentInstructionsCharge,
+	StorePaymentMethod,
+	BankTransferPaymentMethod,
+	ThreeDSecureCharge,
+	ThreeDSecureResult,
+	ChargeResult,
+	CheckoutEvent,
+	CheckoutState,
+	CheckoutStatus,
+	OpenPayEvent,
+	OpenPayEventType,
+	RedactedCard,
+	RedactedError,
+} from "./types/openpay";
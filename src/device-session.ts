@@ -0,0 +1,145 @@
+import type { DeviceSessionListener, OpenPayConfig } from "./types/openpay";
+import { isBrowser } from "./utils/environment";
+
+export const DEFAULT_FORM_ID = "openpay-payment-form";
+export const DEFAULT_DEVICE_ID_FIELD_NAME = "deviceIdHiddenFieldName";
+
+/**
+ * Anti-fraud device session: generates the id through OpenPay.js, rotates it per attempt or
+ * after a TTL, and keeps a hidden input in the attached forms in sync
+ */
+export class DeviceSessionManager {
+	private id = "";
+	private usedByAttempt = false;
+	private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+	private listeners = new Set<DeviceSessionListener>();
+	/** Attached forms and the hidden input kept in each */
+	private inputs = new Map<HTMLFormElement, HTMLInputElement>();
+	/** Inputs created here, removed again on detach */
+	private injected = new WeakSet<HTMLInputElement>();
+
+	constructor(
+		private config: Pick<OpenPayConfig, "formId" | "deviceIdFieldName" | "deviceSession">,
+	) {}
+
+	public get fieldName(): string {
+		return this.config.deviceIdFieldName ?? DEFAULT_DEVICE_ID_FIELD_NAME;
+	}
+
+	/**
+	 * Generate the first id once OpenPay.js is loaded and attach the configured form, if rendered
+	 */
+	public start(): void {
+		this.rotate();
+		const form = document.getElementById(this.config.formId ?? DEFAULT_FORM_ID);
+		if (form instanceof HTMLFormElement) {
+			this.attach(form);
+		}
+	}
+
+	/**
+	 * Current id; empty until start()
+	 */
+	public getId(): string {
+		return this.id;
+	}
+
+	/**
+	 * Replace the id with a fresh one from OpenPay.js
+	 */
+	public rotate(): string {
+		this.id = window.OpenPay.deviceData.setup();
+		this.usedByAttempt = false;
+		this.scheduleExpiry();
+		this.sync();
+		return this.id;
+	}
+
+	/**
+	 * Id to send with a tokenization attempt; rotates first when configured per attempt
+	 */
+	public beginAttempt(): string {
+		if (this.config.deviceSession?.rotatePerAttempt && this.usedByAttempt) {
+			this.rotate();
+		}
+		this.usedByAttempt = true;
+		return this.id;
+	}
+
+	/**
+	 * Keep a hidden input with the current id in a form; returns a function that removes it
+	 */
+	public attach(form: HTMLFormElement | string): () => void {
+		const element = typeof form === "string" ? document.getElementById(form) : form;
+		if (!(element instanceof HTMLFormElement)) return () => {};
+
+		let input = this.inputs.get(element);
+		if (!input) {
+			// Reuse an input rendered by the app or injected by OpenPay.js
+			input =
+				element.querySelector<HTMLInputElement>(`input[name="${this.fieldName}"]`) ??
+				Object.assign(document.createElement("input"), {
+					type: "hidden",
+					name: this.fieldName,
+					id: this.fieldName,
+				});
+			if (!input.isConnected) {
+				element.appendChild(input);
+				this.injected.add(input);
+			}
+			this.inputs.set(element, input);
+		}
+		input.value = this.id;
+
+		return () => this.detach(element);
+	}
+
+	private detach(form: HTMLFormElement): void {
+		const input = this.inputs.get(form);
+		if (input && this.injected.has(input)) {
+			input.remove();
+		}
+		this.inputs.delete(form);
+	}
+
+	public subscribe(listener: DeviceSessionListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Forget the id, stop the TTL timer and remove the hidden inputs
+	 */
+	public reset(): void {
+		clearTimeout(this.expiryTimer);
+		for (const form of [...this.inputs.keys()]) {
+			this.detach(form);
+		}
+		this.id = "";
+		this.usedByAttempt = false;
+		this.notify();
+	}
+
+	private scheduleExpiry(): void {
+		clearTimeout(this.expiryTimer);
+		const ttl = this.config.deviceSession?.ttl;
+		if (ttl && isBrowser()) {
+			this.expiryTimer = setTimeout(() => this.rotate(), ttl);
+		}
+	}
+
+	private sync(): void {
+		for (const input of this.inputs.values()) {
+			input.value = this.id;
+		}
+		this.notify();
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener(this.id);
+		}
+	}
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import {
+	AuthenticationFailedError,
+	CardDeclinedError,
+	InvalidRequestError,
+	OpenPayRequestError,
+	toOpenPayRequestError,
+} from "./errors";
+import { createOpenPayError } from "./testing";
+
+describe("toOpenPayRequestError", () => {
+	it.each([
+		[2010, AuthenticationFailedError, "authentication_failed"],
+		[3001, CardDeclinedError, "card_declined"],
+		[2004, InvalidRequestError, "invalid_request"],
+		[9999, OpenPayRequestError, "unknown"],
+	])("maps code %i to its kind", (code, ErrorClass, kind) => {
+		const error = toOpenPayRequestError(createOpenPayError(code));
+		expect(error).toBeInstanceOf(ErrorClass);
+		expect(error.kind).toBe(kind);
+	});
+
+	it("localizes the 3-D Secure failure message", () => {
+		const error = toOpenPayRequestError(createOpenPayError(2010));
+		expect(error.isUserFixable).toBe(true);
+		expect(error.getUserMessage("en")).toMatch(/3-D Secure/);
+		expect(error.getUserMessage("es")).toMatch(/3-D Secure/);
+	});
+});
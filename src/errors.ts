@@ -0,0 +1,221 @@
+import { type Locale, type PlainMessageKey, type Translate, createTranslator } from "./i18n";
+import type { Card, OpenPayError } from "./types/openpay";
+
+/**
+ * Error categories derived from OpenPay error codes
+ */
+export type OpenPayErrorKind =
+	| "card_declined"
+	| "card_expired"
+	| "insufficient_funds"
+	| "fraud_suspected"
+	| "authentication_failed"
+	| "invalid_request"
+	| "network"
+	| "script_load"
+	| "unknown";
+
+interface ErrorCodeInfo {
+	kind: OpenPayErrorKind;
+	field?: keyof Card;
+}
+
+/**
+ * OpenPay error codes: 1xxx general, 2xxx storage and card data, 3xxx card charges
+ */
+export const ERROR_CODES: Record<number, ErrorCodeInfo> = {
+	1000: { kind: "network" },
+	1001: { kind: "invalid_request" },
+	1002: { kind: "invalid_request" },
+	1003: { kind: "invalid_request" },
+	1004: { kind: "network" },
+	1005: { kind: "invalid_request" },
+	1006: { kind: "invalid_request" },
+	1008: { kind: "invalid_request" },
+	1009: { kind: "invalid_request" },
+	1010: { kind: "invalid_request" },
+	1012: { kind: "invalid_request" },
+	1013: { kind: "invalid_request" },
+	1015: { kind: "network" },
+	1017: { kind: "network" },
+	1018: { kind: "card_declined" },
+	2004: { kind: "invalid_request", field: "card_number" },
+	2005: { kind: "card_expired", field: "expiration_month" },
+	2006: { kind: "invalid_request", field: "cvv2" },
+	2007: { kind: "invalid_request", field: "card_number" },
+	2009: { kind: "invalid_request", field: "cvv2" },
+	2010: { kind: "authentication_failed" },
+	2011: { kind: "invalid_request", field: "card_number" },
+	3001: { kind: "card_declined" },
+	3002: { kind: "card_expired", field: "expiration_month" },
+	3003: { kind: "insufficient_funds" },
+	3004: { kind: "fraud_suspected" },
+	3005: { kind: "fraud_suspected" },
+	3006: { kind: "card_declined" },
+	3008: { kind: "card_declined", field: "card_number" },
+	3009: { kind: "fraud_suspected" },
+	3010: { kind: "card_declined" },
+	3011: { kind: "fraud_suspected" },
+	3012: { kind: "card_declined" },
+};
+
+/**
+ * Codes with an end-user message more specific than their kind
+ */
+const CODE_MESSAGE_KEYS: Partial<Record<number, PlainMessageKey>> = {
+	2004: "error.code.2004",
+	2006: "error.code.2006",
+	2007: "error.code.2007",
+	2009: "error.code.2009",
+	2010: "error.code.2010",
+	2011: "error.code.2011",
+	3008: "error.code.3008",
+};
+
+interface OpenPayRequestErrorOptions {
+	code?: number;
+	httpStatus?: number;
+	requestId?: string;
+	category?: string;
+	field?: keyof Card;
+	raw?: unknown;
+}
+
+/**
+ * Base class for failed OpenPay operations
+ */
+export class OpenPayRequestError extends Error {
+	// Explicit names survive identifier minification
+	public override name = "OpenPayRequestError";
+	public readonly kind: OpenPayErrorKind = "unknown";
+	public readonly isRetryable: boolean = false;
+	public readonly isUserFixable: boolean = false;
+	/** OpenPay error_code, 0 when the request never reached OpenPay */
+	public readonly code: number;
+	public readonly httpStatus: number;
+	public readonly requestId?: string;
+	public readonly category?: string;
+	/** Card field responsible for the error, when there is one */
+	public readonly field?: keyof Card;
+	/** Original rejection value */
+	public readonly raw?: unknown;
+
+	constructor(message: string, options: OpenPayRequestErrorOptions = {}) {
+		super(message);
+		this.code = options.code ?? 0;
+		this.httpStatus = options.httpStatus ?? 0;
+		this.requestId = options.requestId;
+		this.category = options.category;
+		this.field = options.field;
+		this.raw = options.raw;
+	}
+
+	/**
+	 * Message suitable for showing to the payer, in a locale or through a client's translator
+	 */
+	public getUserMessage(locale: Locale | Translate = "en"): string {
+		const translate = typeof locale === "function" ? locale : createTranslator(locale);
+		return translate(CODE_MESSAGE_KEYS[this.code] ?? `error.${this.kind}`);
+	}
+}
+
+export class CardDeclinedError extends OpenPayRequestError {
+	public override name = "CardDeclinedError";
+	public override readonly kind = "card_declined";
+	public override readonly isUserFixable = true;
+}
+
+export class CardExpiredError extends OpenPayRequestError {
+	public override name = "CardExpiredError";
+	public override readonly kind = "card_expired";
+	public override readonly isUserFixable = true;
+}
+
+export class InsufficientFundsError extends OpenPayRequestError {
+	public override name = "InsufficientFundsError";
+	public override readonly kind = "insufficient_funds";
+	public override readonly isUserFixable = true;
+}
+
+export class FraudSuspectedError extends OpenPayRequestError {
+	public override name = "FraudSuspectedError";
+	public override readonly kind = "fraud_suspected";
+}
+
+/**
+ * The payer failed, abandoned or could not complete 3-D Secure authentication
+ */
+export class AuthenticationFailedError extends OpenPayRequestError {
+	public override name = "AuthenticationFailedError";
+	public override readonly kind = "authentication_failed";
+	public override readonly isUserFixable = true;
+}
+
+export class InvalidRequestError extends OpenPayRequestError {
+	public override name = "InvalidRequestError";
+	public override readonly kind = "invalid_request";
+	public override readonly isUserFixable: boolean;
+
+	constructor(message: string, options: OpenPayRequestErrorOptions = {}) {
+		super(message, options);
+		// Only field-level problems can be corrected by the payer
+		this.isUserFixable = options.field !== undefined;
+	}
+}
+
+export class NetworkError extends OpenPayRequestError {
+	public override name = "NetworkError";
+	public override readonly kind = "network";
+	public override readonly isRetryable = true;
+}
+
+export class ScriptLoadError extends OpenPayRequestError {
+	public override name = "ScriptLoadError";
+	public override readonly kind = "script_load";
+	public override readonly isRetryable = true;
+}
+
+const ERROR_CLASSES: Record<OpenPayErrorKind, typeof OpenPayRequestError> = {
+	card_declined: CardDeclinedError,
+	card_expired: CardExpiredError,
+	insufficient_funds: InsufficientFundsError,
+	fraud_suspected: FraudSuspectedError,
+	authentication_failed: AuthenticationFailedError,
+	invalid_request: InvalidRequestError,
+	network: NetworkError,
+	script_load: ScriptLoadError,
+	unknown: OpenPayRequestError,
+};
+
+const isOpenPayError = (error: unknown): error is OpenPayError =>
+	typeof error === "object" && error !== null && "status" in error && "data" in error;
+
+/**
+ * Convert whatever OpenPay.js rejected with into a typed error
+ */
+export const toOpenPayRequestError = (error: unknown): OpenPayRequestError => {
+	if (error instanceof OpenPayRequestError) {
+		return error;
+	}
+
+	if (isOpenPayError(error)) {
+		const data: Partial<OpenPayError["data"]> = error.data ?? {};
+		const code = Number(data.error_code) || 0;
+		// OpenPay.js reports status 0 when the request could not be sent
+		const info: ErrorCodeInfo =
+			ERROR_CODES[code] ?? (error.status ? { kind: "unknown" } : { kind: "network" });
+		const ErrorClass = ERROR_CLASSES[info.kind];
+
+		return new ErrorClass(data.description || error.message || "OpenPay request failed", {
+			code,
+			httpStatus: data.http_code ?? error.status,
+			requestId: data.request_id,
+			category: data.category,
+			field: info.field,
+			raw: error,
+		});
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	return new OpenPayRequestError(message, { raw: error });
+};
@@ -0,0 +1,46 @@
+import type { Address, Card } from "@/types/openpay";
+import {
+	type FormAdapterOptions,
+	createAddressFormValidator,
+	createCardFormValidator,
+	nestIssues,
+} from "./validate";
+
+/**
+ * Nested error messages in the shape Formik expects from `validate`
+ */
+export type FormikErrors<T> = {
+	[K in keyof T]?: NonNullable<T[K]> extends Record<string, unknown>
+		? FormikErrors<NonNullable<T[K]>> | string
+		: string;
+};
+
+/**
+ * Formik `validate` function for card values: the country's card schema plus the client's card
+ * checks
+ *
+ * @example
+ * <Formik initialValues={card} validate={createCardValidate({ client })} onSubmit={pay}>
+ */
+export const createCardValidate = (options?: FormAdapterOptions) => {
+	const validate = createCardFormValidator(options);
+	return (values: Card): FormikErrors<Card> => {
+		const result = validate(values);
+		return result.success
+			? {}
+			: (nestIssues(result.issues, (issue) => issue.message) as FormikErrors<Card>);
+	};
+};
+
+/**
+ * Formik `validate` function for a billing address with the country's rules
+ */
+export const createAddressValidate = (options?: FormAdapterOptions) => {
+	const validate = createAddressFormValidator(options);
+	return (values: Address): FormikErrors<Address> => {
+		const result = validate(values);
+		return result.success
+			? {}
+			: (nestIssues(result.issues, (issue) => issue.message) as FormikErrors<Address>);
+	};
+};
@@ -0,0 +1,64 @@
+import type { Address, Card } from "@/types/openpay";
+import {
+	type FormAdapterOptions,
+	type FormValidationResult,
+	createAddressFormValidator,
+	createCardFormValidator,
+	nestIssues,
+} from "./validate";
+
+/**
+ * Field error in the shape react-hook-form expects from a resolver
+ */
+export interface ResolverFieldError {
+	type: string;
+	message: string;
+}
+
+/**
+ * Nested field errors of a resolver, mirroring the form values
+ */
+export type ResolverErrors<T> = {
+	[K in keyof T]?: NonNullable<T[K]> extends Record<string, unknown>
+		? ResolverErrors<NonNullable<T[K]>> | ResolverFieldError
+		: ResolverFieldError;
+};
+
+/**
+ * Resolver result: parsed values when valid, field errors otherwise
+ */
+export type ResolverResult<T> =
+	| { values: T; errors: Record<string, never> }
+	| { values: Record<string, never>; errors: ResolverErrors<T> };
+
+const toResolverResult = <T>(result: FormValidationResult<T>): ResolverResult<T> =>
+	result.success
+		? { values: result.data, errors: {} }
+		: {
+				values: {},
+				errors: nestIssues(result.issues, (issue) => ({
+					type: "validate",
+					message: issue.message,
+				})) as ResolverErrors<T>,
+			};
+
+/**
+ * react-hook-form resolver for card values: the country's card schema plus the client's card
+ * checks. Valid submissions receive the card number without spaces.
+ *
+ * @example
+ * useForm<Card>({ resolver: createCardResolver({ client }) })
+ */
+export const createCardResolver = (options?: FormAdapterOptions) => {
+	const validate = createCardFormValidator(options);
+	return async (values: Card): Promise<ResolverResult<Card>> => toResolverResult(validate(values));
+};
+
+/**
+ * react-hook-form resolver for a billing address with the country's rules
+ */
+export const createAddressResolver = (options?: FormAdapterOptions) => {
+	const validate = createAddressFormValidator(options);
+	return async (values: Address): Promise<ResolverResult<Address>> =>
+		toResolverResult(validate(values));
+};
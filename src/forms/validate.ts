@@ -0,0 +1,136 @@
+import { type Translate, defaultTranslate } from "@/i18n";
+import type { OpenPayClient } from "@/openpay-client";
+import type { Address, Card, CountryCode } from "@/types/openpay";
+import { getCardBrand } from "@/utils/card-brands";
+import { digitsOnly, guessCardType } from "@/utils/formatter";
+import { createAddressSchema, createCardSchema } from "@/utils/validator";
+import type { z } from "zod";
+
+/**
+ * Where adapter rules and messages come from
+ */
+export interface FormAdapterOptions {
+	/** Country rules, messages and, in "remote" validation mode, the OpenPay.js validators */
+	client?: OpenPayClient;
+	/** Defaults to the client's country */
+	country?: CountryCode;
+	/** Defaults to the client's translator, else English */
+	translate?: Translate;
+}
+
+export interface FormIssue {
+	path: string[];
+	message: string;
+}
+
+export type FormValidationResult<T> =
+	| { success: true; data: T; issues: [] }
+	| { success: false; issues: FormIssue[] };
+
+const resolveOptions = ({ client, country, translate }: FormAdapterOptions) => ({
+	country: country ?? client?.getCountryConfig().code,
+	translate: translate ?? client?.translate ?? defaultTranslate,
+});
+
+const toIssues = (error: z.ZodError): FormIssue[] =>
+	error.issues.map((issue) => ({ path: issue.path.map(String), message: issue.message }));
+
+/**
+ * Card checks of the client's validation engine (OpenPay.js in "remote" mode) for the fields the
+ * schema accepted
+ */
+const getClientIssues = (client: OpenPayClient, card: Card, t: Translate): FormIssue[] => {
+	const issues: FormIssue[] = [];
+	if (!client.card.validateNumber(card.card_number)) {
+		issues.push({ path: ["card_number"], message: t("card_number.invalid") });
+	}
+	if (!client.card.validateCVC(card.cvv2, card.card_number)) {
+		const digits = getCardBrand(guessCardType(card.card_number))?.cvvLength ?? 3;
+		issues.push({ path: ["cvv2"], message: t("cvv2.invalid", { digits }) });
+	}
+	if (!client.card.validateExpiry(card.expiration_month, card.expiration_year)) {
+		issues.push({ path: ["expiration_month"], message: t("expiry.invalid") });
+	}
+	return issues;
+};
+
+/**
+ * Card validator shared by the form library adapters: the country's card schema, then the
+ * client's card checks
+ * @internal
+ */
+export const createCardFormValidator = (options: FormAdapterOptions = {}) => {
+	const { country, translate } = resolveOptions(options);
+	const schema = createCardSchema(country, translate);
+
+	return (values: Card): FormValidationResult<Card> => {
+		// Inputs may hold a spaced card number for display
+		const card = { ...values, card_number: digitsOnly(values.card_number ?? "") };
+		const result = schema.safeParse(card);
+		const issues = result.success ? [] : toIssues(result.error);
+
+		if (options.client) {
+			const flagged = new Set(issues.map((issue) => issue.path[0]));
+			issues.push(
+				...getClientIssues(options.client, card, translate).filter(
+					(issue) => !flagged.has(issue.path[0]),
+				),
+			);
+		}
+
+		return result.success && issues.length === 0
+			? { success: true, data: card, issues: [] }
+			: { success: false, issues };
+	};
+};
+
+/**
+ * Address validator shared by the form library adapters
+ * @internal
+ */
+export const createAddressFormValidator = (options: FormAdapterOptions = {}) => {
+	const { country, translate } = resolveOptions(options);
+	const schema = createAddressSchema(country, translate);
+
+	return (values: Address): FormValidationResult<Address> => {
+		const result = schema.safeParse(values);
+		return result.success
+			? { success: true, data: values, issues: [] }
+			: { success: false, issues: toIssues(result.error) };
+	};
+};
+
+/**
+ * Nest issues by path, keeping the first message per field
+ * @internal
+ */
+export const nestIssues = <T>(
+	issues: FormIssue[],
+	toError: (issue: FormIssue) => T,
+): Record<string, unknown> => {
+	const errors: Record<string, unknown> = {};
+	const leaves = new Set<unknown>();
+
+	for (const issue of issues) {
+		const keys = issue.path.length > 0 ? issue.path : ["root"];
+		let target: Record<string, unknown> | undefined = errors;
+		for (const key of keys.slice(0, -1)) {
+			target[key] ??= {};
+			const next: unknown = target[key];
+			// A message already set on a parent field wins over nested ones
+			if (leaves.has(next)) {
+				target = undefined;
+				break;
+			}
+			target = next as Record<string, unknown>;
+		}
+
+		const last = keys[keys.length - 1] as string;
+		if (target && target[last] === undefined) {
+			const error = toError(issue);
+			leaves.add(error);
+			target[last] = error;
+		}
+	}
+	return errors;
+};
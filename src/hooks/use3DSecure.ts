@@ -0,0 +1,174 @@
+import { toOpenPayRequestError } from "@/errors";
+import type {
+	ThreeDSecureCharge,
+	ThreeDSecureMode,
+	ThreeDSecureResult,
+	ThreeDSecureStatus,
+} from "@/types/openpay";
+import { isBrowser } from "@/utils/environment";
+import {
+	getThreeDSecureResult,
+	getThreeDSecureUrl,
+	parseThreeDSecureReturn,
+} from "@/utils/three-d-secure";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface Use3DSecureOptions {
+	/** Defaults to "modal" */
+	mode?: ThreeDSecureMode;
+	/** Fetches the charge from your backend once the payer is back from their bank */
+	verifyCharge: (chargeId: string) => Promise<ThreeDSecureCharge>;
+	/** `redirect_url` sent with the charge; only that page is treated as the return page */
+	redirectUrl?: string;
+	/** Look for a payer returning from a full-page redirect on mount, default true */
+	detectReturn?: boolean;
+	onComplete?: (result: ThreeDSecureResult) => void;
+}
+
+interface PendingAuthentication {
+	chargeId: string;
+	resolve: (result: ThreeDSecureResult) => void;
+}
+
+/**
+ * Runs the 3-D Secure step of a charge created with `use_3d_secure`.
+ * Render `frameProps` with ThreeDSecureFrame for the iframe and modal modes.
+ */
+export const use3DSecure = (options: Use3DSecureOptions) => {
+	const { mode = "modal", redirectUrl, detectReturn = true } = options;
+	const [status, setStatus] = useState<ThreeDSecureStatus>("idle");
+	const [result, setResult] = useState<ThreeDSecureResult | null>(null);
+	const [url, setUrl] = useState<string | null>(null);
+	const pending = useRef<PendingAuthentication | null>(null);
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+
+	const finish = useCallback((outcome: ThreeDSecureResult) => {
+		const current = pending.current;
+		pending.current = null;
+		setUrl(null);
+		setResult(outcome);
+		setStatus(outcome.status);
+		optionsRef.current.onComplete?.(outcome);
+		current?.resolve(outcome);
+		return outcome;
+	}, []);
+
+	const verify = useCallback(
+		async (chargeId: string) => {
+			setUrl(null);
+			setStatus("verifying");
+			try {
+				const charge = await optionsRef.current.verifyCharge(chargeId);
+				return finish(getThreeDSecureResult(charge));
+			} catch (error) {
+				return finish({ status: "failed", chargeId, error: toOpenPayRequestError(error) });
+			}
+		},
+		[finish],
+	);
+
+	/**
+	 * Open the authentication page for a charge; resolves once the payer is done.
+	 * In redirect mode the page navigates away and the result is picked up on return.
+	 */
+	const authenticate = useCallback(
+		(charge: ThreeDSecureCharge): Promise<ThreeDSecureResult> => {
+			const authenticationUrl = getThreeDSecureUrl(charge);
+			if (!authenticationUrl) {
+				return Promise.resolve(finish(getThreeDSecureResult(charge)));
+			}
+
+			// A new charge supersedes the one still waiting
+			const previous = pending.current;
+			previous?.resolve({ status: "cancelled", chargeId: previous.chargeId });
+
+			return new Promise<ThreeDSecureResult>((resolve) => {
+				pending.current = { chargeId: charge.id, resolve };
+				setResult(null);
+				setStatus("authenticating");
+				if (mode === "redirect") {
+					window.location.assign(authenticationUrl);
+				} else {
+					setUrl(authenticationUrl);
+				}
+			});
+		},
+		[finish, mode],
+	);
+
+	const cancel = useCallback(() => {
+		const current = pending.current;
+		if (current) {
+			finish({ status: "cancelled", chargeId: current.chargeId });
+		}
+	}, [finish]);
+
+	/**
+	 * Called on every iframe load; the issuer's pages are cross-origin and unreadable,
+	 * so a readable location means the frame reached the return page
+	 */
+	const handleFrameLoad = useCallback(
+		(frame: HTMLIFrameElement) => {
+			const current = pending.current;
+			if (!current) return;
+
+			let href: string;
+			try {
+				href = frame.contentWindow?.location.href ?? "";
+			} catch {
+				return;
+			}
+			const returned = parseThreeDSecureReturn(href, redirectUrl);
+			if (returned) {
+				void verify(returned.chargeId);
+			}
+		},
+		[redirectUrl, verify],
+	);
+
+	const reset = useCallback(() => {
+		cancel();
+		setResult(null);
+		setStatus("idle");
+	}, [cancel]);
+
+	useEffect(() => {
+		// Inside the authentication iframe the parent page handles the return
+		if (!detectReturn || !isBrowser() || window.self !== window.top) return;
+
+		const returned = parseThreeDSecureReturn(window.location.href, redirectUrl);
+		if (!returned) return;
+
+		// Drop the id so a reload does not verify the charge again
+		const cleanUrl = new URL(window.location.href);
+		cleanUrl.searchParams.delete("id");
+		window.history.replaceState(window.history.state, "", cleanUrl);
+		void verify(returned.chargeId);
+	}, [detectReturn, redirectUrl, verify]);
+
+	useEffect(
+		() => () => {
+			const current = pending.current;
+			pending.current = null;
+			current?.resolve({ status: "cancelled", chargeId: current.chargeId });
+		},
+		[],
+	);
+
+	return {
+		status,
+		result,
+		/** Authentication page currently shown in the iframe or modal */
+		url,
+		authenticate,
+		cancel,
+		reset,
+		frameProps: {
+			url,
+			mode: mode === "iframe" ? ("iframe" as const) : ("modal" as const),
+			onLoad: handleFrameLoad,
+			onCancel: cancel,
+		},
+	};
+};
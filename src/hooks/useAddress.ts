@@ -0,0 +1,164 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { Address, CountryCode } from "@/types/openpay";
+import { findAddressState, formatPostalCode } from "@/utils/address";
+import { getCountryConfig } from "@/utils/countries";
+import { createAddressSchema } from "@/utils/validator";
+import { type ChangeEvent, useMemo, useState } from "react";
+
+export type AddressField = Exclude<keyof Address, "country_code">;
+export type AddressErrors = Partial<Record<AddressField, string>>;
+
+export interface UseAddressOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Country of the address; defaults to the client's merchant country */
+	country?: CountryCode;
+	initialValues?: Partial<Address>;
+	/** Receives the complete address, or null while it is invalid; e.g. useCardForm's setAddress */
+	onChange?: (address: Address | null) => void;
+}
+
+type AddressSchema = ReturnType<typeof createAddressSchema>;
+type AddressValues = Record<AddressField, string>;
+
+const ADDRESS_FIELDS: AddressField[] = ["line1", "line2", "line3", "city", "state", "postal_code"];
+
+const EMPTY_ADDRESS: AddressValues = {
+	line1: "",
+	line2: "",
+	line3: "",
+	city: "",
+	state: "",
+	postal_code: "",
+};
+
+/**
+ * Address for Card.address: trimmed, empty optional lines dropped and the state named canonically
+ */
+const toAddress = (values: AddressValues, country: CountryCode): Address => {
+	const line2 = values.line2.trim();
+	const line3 = values.line3.trim();
+	return {
+		line1: values.line1.trim(),
+		...(line2 && { line2 }),
+		...(line3 && { line3 }),
+		city: values.city.trim(),
+		state: findAddressState(values.state, country)?.name ?? values.state.trim(),
+		postal_code: values.postal_code,
+		country_code: country,
+	};
+};
+
+const validateValues = (
+	schema: AddressSchema,
+	values: AddressValues,
+	country: CountryCode,
+): AddressErrors => {
+	const result = schema.safeParse(toAddress(values, country));
+	if (result.success) return {};
+
+	const errors: AddressErrors = {};
+	for (const issue of result.error.issues) {
+		const field = issue.path[0] as AddressField | undefined;
+		if (field && !errors[field]) {
+			errors[field] = issue.message;
+		}
+	}
+	return errors;
+};
+
+/**
+ * Billing address state with the rules of a country: postal code format, state or department
+ * list and optional second and third lines
+ */
+export const useAddress = ({
+	client: clientOverride,
+	country: countryOverride,
+	initialValues,
+	onChange,
+}: UseAddressOptions = {}) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const country = getCountryConfig(countryOverride ?? client?.getCountryConfig().code);
+	const translate = client?.translate;
+	const schema = useMemo(
+		() => createAddressSchema(country.code, translate),
+		[country.code, translate],
+	);
+
+	const [initial] = useState<AddressValues>(() => {
+		const { country_code: _country, ...values } = initialValues ?? {};
+		return { ...EMPTY_ADDRESS, ...values };
+	});
+	const [values, setValues] = useState<AddressValues>(initial);
+	const [touched, setTouched] = useState<Partial<Record<AddressField, boolean>>>({});
+
+	const errors = validateValues(schema, values, country.code);
+	const isValid = Object.keys(errors).length === 0;
+
+	const setValue = (field: AddressField, value: string) => {
+		const next = {
+			...values,
+			[field]: field === "postal_code" ? formatPostalCode(value, country.code) : value,
+		};
+		setValues(next);
+		if (onChange) {
+			const nextValid = Object.keys(validateValues(schema, next, country.code)).length === 0;
+			onChange(nextValid ? toAddress(next, country.code) : null);
+		}
+	};
+
+	const setFieldTouched = (field: AddressField, isTouched = true) => {
+		setTouched((current) => ({ ...current, [field]: isTouched }));
+	};
+
+	/**
+	 * Props for a plain input or select bound to an address field
+	 */
+	const getFieldProps = (field: AddressField) => ({
+		name: field,
+		value: values[field],
+		onChange: (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+			setValue(field, event.target.value),
+		onBlur: () => setFieldTouched(field),
+		required:
+			field === "line1" ||
+			field === "city" ||
+			(field === "state" && country.address.requireState) ||
+			(field === "postal_code" && country.address.requirePostalCode),
+		"aria-invalid": Boolean(touched[field] && errors[field]),
+	});
+
+	/**
+	 * Touch every field and return the address, or null when it is invalid
+	 */
+	const validate = (): Address | null => {
+		setTouched(Object.fromEntries(ADDRESS_FIELDS.map((field) => [field, true])));
+		return isValid ? toAddress(values, country.code) : null;
+	};
+
+	const reset = (nextValues: Partial<AddressValues> = {}) => {
+		setValues({ ...initial, ...nextValues });
+		setTouched({});
+	};
+
+	return {
+		values,
+		errors,
+		touched,
+		isValid,
+		/** Complete address for Card.address, or null while it is invalid */
+		address: isValid ? toAddress(values, country.code) : null,
+		country: country.code,
+		rules: country.address,
+		states: country.address.states,
+		setValue,
+		setFieldTouched,
+		getFieldProps,
+		validate,
+		reset,
+	};
+};
+
+export type UseAddressResult = ReturnType<typeof useAddress>;
@@ -0,0 +1,78 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { CardFieldStatus, ValidateFieldOptions } from "@/types/openpay";
+import { type ChangeEvent, type InputHTMLAttributes, useState } from "react";
+
+/**
+ * Props shared by the prebuilt card inputs
+ */
+export interface CardInputProps
+	extends Omit<InputHTMLAttributes<HTMLInputElement>, "value" | "defaultValue" | "onChange"> {
+	/** Controlled value, as displayed (formatted) */
+	value?: string;
+	/** Initial value for uncontrolled usage */
+	defaultValue?: string;
+	onChange?: (value: string, status: CardFieldStatus) => void;
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Render the field status message below the input */
+	showStatus?: boolean;
+	statusClassName?: string;
+}
+
+interface UseCardFieldOptions {
+	value?: string;
+	defaultValue?: string;
+	client?: OpenPayClient;
+	format: (value: string) => string;
+	/** Validates the formatted value; pass `options` on to validateField */
+	validate: (
+		card: OpenPayClient["card"],
+		value: string,
+		options: ValidateFieldOptions,
+	) => CardFieldStatus;
+	onChange?: (value: string, status: CardFieldStatus) => void;
+}
+
+/**
+ * Controlled/uncontrolled value, formatting and validation status for a card input
+ * @internal
+ */
+export const useCardField = ({
+	value,
+	defaultValue = "",
+	client: clientOverride,
+	format,
+	validate,
+	onChange,
+}: UseCardFieldOptions) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+
+	const [innerValue, setInnerValue] = useState(() => format(defaultValue));
+	const [isDirty, setIsDirty] = useState(false);
+	const isControlled = value !== undefined;
+	const currentValue = isControlled ? format(value) : innerValue;
+
+	const getStatus = (formatted: string, dirty: boolean, track = false): CardFieldStatus => {
+		if (!client) {
+			return { isValid: false, message: "", isDirty: dirty, value: formatted };
+		}
+		const result = validate(client.card, formatted, { track });
+		return { ...result, isDirty: dirty, value: formatted };
+	};
+
+	// Render may run any number of times, so only changes report field_validated
+	const status = getStatus(currentValue, isDirty);
+
+	const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+		const formatted = format(event.target.value);
+		if (!isControlled) {
+			setInnerValue(formatted);
+		}
+		setIsDirty(true);
+		onChange?.(formatted, getStatus(formatted, true, true));
+	};
+
+	return { value: currentValue, status, handleChange };
+};
@@ -0,0 +1,209 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import { toOpenPayRequestError } from "@/errors";
+import type { OpenPayClient } from "@/openpay-client";
+import type {
+	Card,
+	CardFieldStatus,
+	CardFormErrors,
+	CardFormSubmitResult,
+	CustomerDocument,
+	FieldStatusRecord,
+	InstallmentPlan,
+} from "@/types/openpay";
+import { digitsOnly, formatCardNumber, guessCardType } from "@/utils/formatter";
+import { createChargePayload } from "@/utils/installments";
+import { createCardSchema } from "@/utils/validator";
+import { type ChangeEvent, type FormEvent, useMemo, useState } from "react";
+
+type CardField = keyof Card;
+type CardTextField = Exclude<CardField, "address">;
+type CardSchema = ReturnType<typeof createCardSchema>;
+
+export interface UseCardFormOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	initialValues?: Partial<Card>;
+}
+
+export interface CardFormSubmitOptions {
+	/** Plan chosen with useInstallments; added to the charge payload */
+	installmentPlan?: InstallmentPlan | null;
+	/** Payer document from DocumentInput; added to the charge payload */
+	document?: CustomerDocument | null;
+}
+
+const CARD_FIELDS: CardField[] = [
+	"card_number",
+	"holder_name",
+	"expiration_month",
+	"expiration_year",
+	"cvv2",
+	"address",
+];
+
+const EMPTY_CARD: Card = {
+	card_number: "",
+	holder_name: "",
+	expiration_month: "",
+	expiration_year: "",
+	cvv2: "",
+};
+
+const normalizeValue = (field: CardTextField, value: string): string => {
+	switch (field) {
+		case "card_number":
+			return digitsOnly(value).slice(0, 19);
+		case "cvv2":
+			return digitsOnly(value).slice(0, 4);
+		case "expiration_month":
+		case "expiration_year":
+			return digitsOnly(value).slice(0, 2);
+		default:
+			return value;
+	}
+};
+
+const validateValues = (schema: CardSchema, values: Card): CardFormErrors => {
+	const result = schema.safeParse(values);
+	if (result.success) return {};
+
+	const errors: CardFormErrors = {};
+	for (const issue of result.error.issues) {
+		const field = issue.path[0] as CardField | undefined;
+		if (field && !errors[field]) {
+			errors[field] = issue.message;
+		}
+	}
+	return errors;
+};
+
+const toFieldFlags = (fields: CardField[]): Partial<Record<CardField, boolean>> =>
+	Object.fromEntries(fields.map((field) => [field, true]));
+
+/**
+ * Card form state: values, per-field status, touched/dirty tracking and submit-to-token
+ */
+export const useCardForm = ({ client: clientOverride, initialValues }: UseCardFormOptions = {}) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const country = client?.getCountryConfig().code;
+	const translate = client?.translate;
+	const schema = useMemo(() => createCardSchema(country, translate), [country, translate]);
+
+	const [initial] = useState<Card>(() => ({ ...EMPTY_CARD, ...initialValues }));
+	const [values, setValues] = useState<Card>(initial);
+	const [touched, setTouched] = useState<Partial<Record<CardField, boolean>>>({});
+	const [submitErrors, setSubmitErrors] = useState<CardFormErrors>({});
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const errors: CardFormErrors = { ...validateValues(schema, values), ...submitErrors };
+	const cardType = guessCardType(values.card_number);
+
+	const isFieldDirty = (field: CardField) =>
+		field === "address"
+			? JSON.stringify(values.address) !== JSON.stringify(initial.address)
+			: values[field] !== initial[field];
+
+	const getFieldStatus = (field: CardField): CardFieldStatus => {
+		const error = errors[field];
+		return {
+			isValid: !error,
+			message: error ?? "",
+			cardType: field === "card_number" || field === "cvv2" ? cardType : undefined,
+			isDirty: isFieldDirty(field),
+			isTouched: Boolean(touched[field]),
+			value: field === "address" ? undefined : values[field],
+		};
+	};
+
+	const status = Object.fromEntries(
+		CARD_FIELDS.map((field) => [field, getFieldStatus(field)]),
+	) as FieldStatusRecord;
+
+	const setValue = (field: CardTextField, value: string) => {
+		setValues((current) => ({ ...current, [field]: normalizeValue(field, value) }));
+		setSubmitErrors(({ [field]: _cleared, ...rest }) => rest);
+	};
+
+	const setAddress = (address: Card["address"]) => {
+		setValues((current) => ({ ...current, address }));
+		setSubmitErrors(({ address: _cleared, ...rest }) => rest);
+	};
+
+	const setFieldTouched = (field: CardField, isTouched = true) => {
+		setTouched((current) => ({ ...current, [field]: isTouched }));
+	};
+
+	/**
+	 * Props for a plain input bound to a card field
+	 */
+	const getFieldProps = (field: CardTextField) => ({
+		name: field,
+		value: field === "card_number" ? formatCardNumber(values.card_number, cardType) : values[field],
+		onChange: (event: ChangeEvent<HTMLInputElement>) => setValue(field, event.target.value),
+		onBlur: () => setFieldTouched(field),
+		"aria-invalid": Boolean(touched[field] && errors[field]),
+		"data-openpay-card": field,
+	});
+
+	const handleSubmit = async (
+		event?: FormEvent,
+		{ installmentPlan, document }: CardFormSubmitOptions = {},
+	): Promise<CardFormSubmitResult> => {
+		event?.preventDefault();
+		setTouched(toFieldFlags(CARD_FIELDS));
+
+		const validationErrors = validateValues(schema, values);
+		if (Object.keys(validationErrors).length > 0) {
+			return { success: false, errors: validationErrors };
+		}
+		if (!client) {
+			throw new Error("useCardForm requires a client or an OpenPayProvider");
+		}
+
+		setIsSubmitting(true);
+		try {
+			const token = await client.createToken(values);
+			const payload = createChargePayload(
+				token,
+				client.getDeviceSessionId(),
+				installmentPlan,
+				document,
+			);
+			return { success: true, token, payload };
+		} catch (err) {
+			const error = toOpenPayRequestError(err);
+			const fieldErrors: CardFormErrors = error.field
+				? { [error.field]: error.getUserMessage(translate) }
+				: {};
+			setSubmitErrors(fieldErrors);
+			return { success: false, errors: fieldErrors, error };
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const reset = (nextValues: Partial<Card> = {}) => {
+		setValues({ ...initial, ...nextValues });
+		setTouched({});
+		setSubmitErrors({});
+	};
+
+	return {
+		values,
+		status,
+		errors,
+		touched,
+		cardType,
+		isDirty: CARD_FIELDS.some(isFieldDirty),
+		isValid: Object.keys(errors).length === 0,
+		isSubmitting,
+		setValue,
+		setAddress,
+		setFieldTouched,
+		setErrors: setSubmitErrors,
+		getFieldProps,
+		handleSubmit,
+		reset,
+	};
+};
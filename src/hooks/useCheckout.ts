@@ -0,0 +1,144 @@
+import { INITIAL_CHECKOUT_STATE, canTransition, checkoutReducer, runCheckout } from "@/checkout";
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import { createCardFormValidator } from "@/forms/validate";
+import type { OpenPayClient } from "@/openpay-client";
+import type { Card, CardFormErrors, ChargeResult, CheckoutEvent, Token } from "@/types/openpay";
+import { useEffect, useMemo, useReducer, useRef } from "react";
+import { type Use3DSecureOptions, use3DSecure } from "./use3DSecure";
+
+export interface UseCheckoutOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Creates the charge on your backend with the token and device session id */
+	charge: (token: Token, deviceSessionId: string) => Promise<ChargeResult>;
+	/** Runs 3-D Secure in the page; without it a charge that needs it stops at awaiting_authentication */
+	threeDSecure?: Omit<Use3DSecureOptions, "onComplete">;
+	/** Card field errors; defaults to the country's card schema and the client's card checks */
+	validate?: (card: Card) => CardFormErrors;
+}
+
+const noVerification = () => Promise.reject(new Error("useCheckout has no threeDSecure options"));
+
+/**
+ * Checkout flow as a state machine: validate → tokenize → charge → 3-D Secure → result.
+ * Render `threeDSecure.frameProps` with ThreeDSecureFrame for the iframe and modal modes.
+ */
+export const useCheckout = ({
+	client: clientOverride,
+	charge,
+	threeDSecure,
+	validate,
+}: UseCheckoutOptions) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const [state, dispatchEvent] = useReducer(checkoutReducer, INITIAL_CHECKOUT_STATE);
+	// Live state, so a submit in the same tick as another sees the first one's transition
+	const stateRef = useRef(state);
+	const dispatch = (event: CheckoutEvent) => {
+		stateRef.current = checkoutReducer(stateRef.current, event);
+		dispatchEvent(event);
+		return stateRef.current;
+	};
+
+	const lastCard = useRef<Card | null>(null);
+	const run = useRef<AbortController | null>(null);
+
+	const defaultValidate = useMemo(() => {
+		const validator = createCardFormValidator({ client: client ?? undefined });
+		return (card: Card): CardFormErrors => {
+			const result = validator(card);
+			const errors: CardFormErrors = {};
+			for (const issue of result.issues) {
+				const field = issue.path[0] as keyof Card | undefined;
+				if (field && !errors[field]) {
+					errors[field] = issue.message;
+				}
+			}
+			return errors;
+		};
+	}, [client]);
+
+	const authentication = use3DSecure({
+		verifyCharge: noVerification,
+		...threeDSecure,
+		// Only a page set up for 3-D Secure can be a return page
+		detectReturn: threeDSecure ? threeDSecure.detectReturn : false,
+		onComplete: (result) => {
+			// A return from a full-page redirect starts a new run in the idle state
+			if (!run.current) dispatch({ type: "authenticated", result });
+		},
+	});
+
+	const cancelRun = () => {
+		run.current?.abort();
+		run.current = null;
+	};
+
+	useEffect(
+		() => () => {
+			run.current?.abort();
+		},
+		[],
+	);
+
+	const submit = async (card: Card) => {
+		if (!client) {
+			throw new Error("useCheckout requires a client or an OpenPayProvider");
+		}
+		// A second click while paying, or after the payment succeeded, must not charge again
+		if (!canTransition(stateRef.current, "submit")) return;
+		const controller = new AbortController();
+		run.current = controller;
+		lastCard.current = card;
+
+		await runCheckout(
+			card,
+			{
+				client,
+				charge,
+				validate: validate ?? defaultValidate,
+				authenticate: threeDSecure ? authentication.authenticate : undefined,
+			},
+			dispatch,
+			controller.signal,
+		);
+		if (run.current === controller) run.current = null;
+	};
+
+	/**
+	 * Submit the last card again, e.g. after a network error
+	 */
+	const retry = async () => {
+		if (lastCard.current) {
+			await submit(lastCard.current);
+		}
+	};
+
+	/**
+	 * Back to idle, abandoning a run still in flight; ignored while the charge is in flight
+	 */
+	const reset = () => {
+		// The charge in flight finishes first, so its result is never lost
+		if (!canTransition(stateRef.current, "reset")) return;
+		cancelRun();
+		authentication.reset();
+		dispatch({ type: "reset" });
+	};
+
+	return {
+		state,
+		status: state.status,
+		error: state.status === "failed" ? state.error : null,
+		errors: state.status === "failed" ? state.errors : {},
+		token: "token" in state ? state.token : undefined,
+		charge: "charge" in state ? state.charge : undefined,
+		isProcessing:
+			state.status !== "idle" && state.status !== "succeeded" && state.status !== "failed",
+		submit,
+		retry,
+		reset,
+		threeDSecure: authentication,
+	};
+};
+
+export type UseCheckoutResult = ReturnType<typeof useCheckout>;
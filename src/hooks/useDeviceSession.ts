@@ -0,0 +1,48 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import { useEffect, useSyncExternalStore } from "react";
+import { useClientState } from "./useOpenPayStatus";
+
+export interface UseDeviceSessionOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Form, or its id, that gets a hidden input kept in sync with the id */
+	form?: HTMLFormElement | string | null;
+}
+
+/**
+ * Subscribes to the device session id of a specific client, including rotations
+ */
+export const useDeviceSessionId = (client: OpenPayClient): string => {
+	const { status } = useClientState(client);
+	const deviceSessionId = useSyncExternalStore(
+		(onChange) => client.deviceSession.subscribe(onChange),
+		() => client.deviceSession.getId(),
+		() => "",
+	);
+	return status === "ready" ? deviceSessionId : "";
+};
+
+/**
+ * Current device session id, to send along with the token.
+ * Empty until the OpenPay scripts have loaded.
+ */
+export const useDeviceSession = ({
+	client: clientOverride,
+	form,
+}: UseDeviceSessionOptions = {}): string => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	if (!client) {
+		throw new Error("useDeviceSession requires a client or an OpenPayProvider");
+	}
+	const deviceSessionId = useDeviceSessionId(client);
+	const isReady = deviceSessionId !== "";
+
+	useEffect(() => {
+		if (!form || !isReady) return;
+		return client.deviceSession.attach(form);
+	}, [client, form, isReady]);
+
+	return deviceSessionId;
+};
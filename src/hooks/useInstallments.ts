@@ -0,0 +1,42 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+import type { InstallmentPlan, InstallmentRules } from "@/types/openpay";
+import { getCountryConfig } from "@/utils/countries";
+import { guessCardType } from "@/utils/formatter";
+import { getInstallmentPlans } from "@/utils/installments";
+import { useState } from "react";
+
+export interface UseInstallmentsOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+	/** Replaces the country's installment rules, e.g. with your acquirer's agreement */
+	rules?: InstallmentRules;
+}
+
+/**
+ * Installment plans offered for the card being typed and the amount to charge, plus the selection
+ */
+export const useInstallments = (
+	cardNumber: string,
+	amount: number,
+	{ client: clientOverride, rules: rulesOverride }: UseInstallmentsOptions = {},
+) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	const rules = rulesOverride ?? (client?.getCountryConfig() ?? getCountryConfig()).installments;
+
+	const [selectedPayments, setSelectedPayments] = useState<number | null>(null);
+	const plans = getInstallmentPlans(cardNumber, amount, rules);
+	// A selection that no longer applies (other card, lower amount) falls back to a single payment
+	const selectedPlan: InstallmentPlan | null =
+		plans.find((plan) => plan.payments === selectedPayments) ?? null;
+
+	return {
+		plans,
+		isEligible: plans.length > 0,
+		cardType: guessCardType(cardNumber),
+		selectedPlan,
+		/** Pass null to pay in a single payment */
+		select: (payments: number | null) => setSelectedPayments(payments),
+	};
+};
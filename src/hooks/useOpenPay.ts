@@ -1,31 +1,61 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import { type OpenPayRequestError, toOpenPayRequestError } from "@/errors";
 import type { OpenPayClient } from "@/openpay-client";
-import type { Card } from "@/types/openpay";
-import { useEffect, useState } from "react";
+import type { Card, CreateTokenOptions, UseOpenPayResult } from "@/types/openpay";
+import { useEffect, useRef, useState } from "react";
+import { useDeviceSessionId } from "./useDeviceSession";
+import { useClientState } from "./useOpenPayStatus";
 
-export const useOpenPay = (client: OpenPayClient) => {
-	const [error, setError] = useState<Error | null>(null);
+/**
+ * Uses the given client, or the one owned by the nearest OpenPayProvider
+ */
+export const useOpenPay = (clientOverride?: OpenPayClient): UseOpenPayResult => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	if (!client) {
+		throw new Error("useOpenPay requires a client or an OpenPayProvider");
+	}
 
-	useEffect(() => {
-		return () => {
-			client.cleanup();
-		};
-	}, [client]);
+	const [error, setError] = useState<OpenPayRequestError | null>(null);
+	const [submitting, setSubmitting] = useState(false);
+	// Calls still running, so overlapping calls keep submitting true until the last one ends
+	const pending = useRef(0);
+	const state = useClientState(client);
+	const deviceSessionId = useDeviceSessionId(client);
 
-	const handleToken = async (cardData: Card) => {
+	useEffect(() => client.retain(), [client]);
+
+	const handleToken = async (cardData: Card, options?: CreateTokenOptions) => {
+		pending.current++;
+		setSubmitting(true);
 		try {
-			const token = await client.createToken(cardData);
+			const token = await client.createToken(cardData, options);
 			return token;
 		} catch (err) {
-			setError(err as Error);
-			throw err;
+			// Aborting is the caller's choice, not a payment error
+			if (options?.signal?.aborted) throw err;
+			const requestError = toOpenPayRequestError(err);
+			setError(requestError);
+			throw requestError;
+		} finally {
+			pending.current--;
+			if (pending.current === 0) setSubmitting(false);
 		}
 	};
 
+	const isInitialized = state.status === "ready";
+
 	return {
 		error,
+		initError: state.error,
+		status: state.status,
+		loading: state.status === "idle" || state.status === "loading",
+		isInitialized,
+		submitting,
+		ready: () => client.ready(),
 		createToken: handleToken,
 		card: client.card,
-		deviceSessionId: client.getDeviceSessionId(),
+		deviceSessionId,
 		resetError: () => setError(null),
 	};
 };
@@ -0,0 +1,13 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import type { OpenPayClient } from "@/openpay-client";
+
+/**
+ * Returns the client owned by the nearest OpenPayProvider
+ */
+export const useOpenPayClient = (): OpenPayClient => {
+	const client = useOptionalOpenPayClient();
+	if (!client) {
+		throw new Error("useOpenPayClient must be used within an OpenPayProvider");
+	}
+	return client;
+};
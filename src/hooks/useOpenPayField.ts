@@ -0,0 +1,102 @@
+import type { Card } from "@/types/openpay";
+import {
+	CARD_FORMATS,
+	digitsOnly,
+	formatCardNumber,
+	formatCvv,
+	formatHolderName,
+	getMaxCardLength,
+	guessCardType,
+} from "@/utils/formatter";
+import type { ChangeEvent, FocusEvent } from "react";
+
+export type OpenPayFieldName = Exclude<keyof Card, "address">;
+
+/**
+ * Field props from a form library: react-hook-form's `register(name)` or Formik's
+ * `getFieldProps(name)`
+ */
+export interface FieldRegistration {
+	name: string;
+	/** Present for controlled libraries such as Formik */
+	value?: unknown;
+	onChange: (event: ChangeEvent<HTMLInputElement>) => unknown;
+	onBlur: (event: FocusEvent<HTMLInputElement>) => unknown;
+}
+
+export interface UseOpenPayFieldOptions {
+	/** Card number the CVV belongs to; determines its length */
+	cardNumber?: string;
+}
+
+const AUTOCOMPLETE: Record<OpenPayFieldName, string> = {
+	card_number: "cc-number",
+	holder_name: "cc-name",
+	expiration_month: "cc-exp-month",
+	expiration_year: "cc-exp-year",
+	cvv2: "cc-csc",
+};
+
+const MAX_LENGTHS: Record<OpenPayFieldName, number> = {
+	// A controlled input shows up to 4 spaces between digit groups
+	card_number: 19 + 4,
+	holder_name: 100,
+	expiration_month: 2,
+	expiration_year: 2,
+	cvv2: 4,
+};
+
+/**
+ * Value stored in the form: digits only for numeric fields, like useCardForm
+ */
+const normalizeValue = (field: OpenPayFieldName, value: string, cardNumber: string): string => {
+	switch (field) {
+		case "card_number":
+			return digitsOnly(value).slice(0, getMaxCardLength(guessCardType(value)));
+		case "cvv2":
+			return formatCvv(value, guessCardType(cardNumber));
+		case "expiration_month":
+		case "expiration_year":
+			return digitsOnly(value).slice(0, 2);
+		default:
+			return formatHolderName(value);
+	}
+};
+
+/**
+ * Wrap a form library's field registration so a card input formats what is typed and carries
+ * the `data-openpay-card` attribute OpenPay.js reads
+ *
+ * @example
+ * <input {...useOpenPayField("card_number", register("card_number"))} />
+ * <input {...useOpenPayField("cvv2", formik.getFieldProps("cvv2"), { cardNumber })} />
+ */
+export const useOpenPayField = <R extends FieldRegistration>(
+	field: OpenPayFieldName,
+	registration: R,
+	{ cardNumber = "" }: UseOpenPayFieldOptions = {},
+) => {
+	const isNumeric = field !== "holder_name";
+	const maxLength =
+		field === "cvv2" ? CARD_FORMATS[guessCardType(cardNumber)].cvvLength : MAX_LENGTHS[field];
+
+	return {
+		...registration,
+		// Controlled values are shown formatted; the form keeps the normalized value
+		...(registration.value !== undefined && {
+			value:
+				field === "card_number"
+					? formatCardNumber(String(registration.value ?? ""))
+					: String(registration.value ?? ""),
+		}),
+		onChange: (event: ChangeEvent<HTMLInputElement>) => {
+			event.target.value = normalizeValue(field, event.target.value, cardNumber);
+			return registration.onChange(event);
+		},
+		type: "text",
+		inputMode: isNumeric ? ("numeric" as const) : ("text" as const),
+		autoComplete: AUTOCOMPLETE[field],
+		maxLength,
+		"data-openpay-card": field,
+	};
+};
@@ -0,0 +1,27 @@
+import type { OpenPayClient } from "@/openpay-client";
+import type { OpenPayState } from "@/types/openpay";
+import { useSyncExternalStore } from "react";
+import { useOpenPayClient } from "./useOpenPayClient";
+
+/**
+ * Subscribes to the initialization state of a specific client
+ */
+export const useClientState = (client: OpenPayClient): OpenPayState =>
+	useSyncExternalStore(
+		(onChange) => client.subscribe(onChange),
+		() => client.getState(),
+		() => client.getState(),
+	);
+
+/**
+ * Initialization state of the client owned by the nearest OpenPayProvider
+ */
+export const useOpenPayStatus = () => {
+	const state = useClientState(useOpenPayClient());
+
+	return {
+		...state,
+		loading: state.status === "idle" || state.status === "loading",
+		isInitialized: state.status === "ready",
+	};
+};
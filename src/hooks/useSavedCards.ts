@@ -0,0 +1,101 @@
+import { useOptionalOpenPayClient } from "@/context/OpenPayContext";
+import { type OpenPayRequestError, toOpenPayRequestError } from "@/errors";
+import type { OpenPayClient } from "@/openpay-client";
+import type { SavedCard, SavedCardUpdate } from "@/types/openpay";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface UseSavedCardsOptions {
+	/** Defaults to the client of the nearest OpenPayProvider */
+	client?: OpenPayClient;
+}
+
+/**
+ * Stored cards of a customer, loaded through the client's savedCards adapter, with selection,
+ * update and delete. Pass a null customerId to skip loading, e.g. for guests.
+ */
+export const useSavedCards = (
+	customerId: string | null | undefined,
+	{ client: clientOverride }: UseSavedCardsOptions = {},
+) => {
+	const contextClient = useOptionalOpenPayClient();
+	const client = clientOverride ?? contextClient;
+	if (!client) {
+		throw new Error("useSavedCards requires a client or an OpenPayProvider");
+	}
+
+	const [cards, setCards] = useState<SavedCard[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<OpenPayRequestError | null>(null);
+	const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+	// Ignores responses for a customer that is no longer shown
+	const request = useRef(0);
+
+	const refresh = useCallback(async () => {
+		const current = ++request.current;
+		if (!customerId) {
+			// A request for the previous customer may still be running; its result is ignored
+			setCards([]);
+			setLoading(false);
+			setError(null);
+			return;
+		}
+
+		setLoading(true);
+		setError(null);
+		try {
+			const list = await client.savedCards.list(customerId);
+			if (current === request.current) setCards(list);
+		} catch (err) {
+			if (current === request.current) setError(toOpenPayRequestError(err));
+		} finally {
+			if (current === request.current) setLoading(false);
+		}
+	}, [client, customerId]);
+
+	useEffect(() => {
+		setSelectedCardId(null);
+		void refresh();
+	}, [refresh]);
+
+	const requireCustomer = () => {
+		if (!customerId) {
+			throw new Error("useSavedCards needs a customerId to change stored cards");
+		}
+		return customerId;
+	};
+
+	const update = async (cardId: string, data: SavedCardUpdate) => {
+		try {
+			await client.savedCards.update(requireCustomer(), cardId, data);
+		} catch (err) {
+			const requestError = toOpenPayRequestError(err);
+			setError(requestError);
+			throw requestError;
+		}
+		await refresh();
+	};
+
+	const remove = async (cardId: string) => {
+		try {
+			await client.savedCards.delete(requireCustomer(), cardId);
+		} catch (err) {
+			const requestError = toOpenPayRequestError(err);
+			setError(requestError);
+			throw requestError;
+		}
+		setCards((current) => current.filter((card) => card.id !== cardId));
+		setSelectedCardId((current) => (current === cardId ? null : current));
+	};
+
+	return {
+		cards,
+		loading,
+		error,
+		selectedCard: cards.find((card) => card.id === selectedCardId) ?? null,
+		/** Pass null to pay with a new card instead */
+		select: (cardId: string | null) => setSelectedCardId(cardId),
+		refresh,
+		update,
+		remove,
+	};
+};
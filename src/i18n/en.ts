@@ -0,0 +1,105 @@
+import type { MessageCatalog } from "./messages";
+
+export const en: MessageCatalog = {
+	"card_number.valid": "Valid {brand} card",
+	"card_number.invalid": "Invalid card number",
+	"card_number.unsupported": "Card brand is not supported",
+	"cvv2.valid": "Valid CVV",
+	"cvv2.invalid": "Invalid CVV ({digits} digits required)",
+	"holder_name.valid": "Valid name",
+	"holder_name.invalid": "Name must contain only letters and spaces (min {min} characters)",
+	"expiry.valid": "Valid expiration date",
+	"expiry.invalid": "Invalid expiration date",
+	"field.invalid": "Invalid field",
+
+	"card_number.min": "Card number must be at least {min} digits",
+	"card_number.max": "Card number must not exceed {max} digits",
+	"card_number.format": "Invalid card number format",
+	"holder_name.min": "Holder name must be at least {min} characters",
+	"holder_name.max": "Holder name must not exceed {max} characters",
+	"holder_name.format": "Holder name must contain only letters and spaces",
+	"expiration_year.length": "Expiration year must be 2 digits",
+	"expiration_year.numeric": "Expiration year must be numeric",
+	"expiration_year.past": "Expiration year must not be in the past",
+	"expiration_month.length": "Expiration month must be 2 digits",
+	"expiration_month.range": "Expiration month must be between 01 and 12",
+	"expiry.expired": "Card has expired",
+	"cvv2.min": "CVV must be at least {min} digits",
+	"cvv2.max": "CVV must not exceed {max} digits",
+	"cvv2.numeric": "CVV must be numeric",
+	"cvv2.length": "CVV must be {digits} digits for this card type",
+
+	"address.city.required": "City is required",
+	"address.country_code.length": "Country code must be 2 characters",
+	"address.postal_code.required": "Postal code is required",
+	"address.postal_code.format": "Invalid postal code format",
+	"address.line1.required": "Address line 1 is required",
+	"address.state.required": "State is required",
+	"address.state.invalid": "Select a valid state or department",
+	"address.legend": "Billing address",
+	"address.line1.label": "Address",
+	"address.line2.label": "Apartment, suite, etc. (optional)",
+	"address.line3.label": "Reference (optional)",
+	"address.city.label": "City",
+	"address.state.label": "State",
+	"address.department.label": "Department",
+	"address.state.placeholder": "Select",
+	"address.postal_code.label": "Postal code",
+
+	"document.type.label": "Document type",
+	"document.number.label": "Document number",
+	"document.type.dni": "DNI",
+	"document.type.ruc": "RUC",
+	"document.type.ce": "Foreigner ID (CE)",
+	"document.type.passport": "Passport",
+	"document.type.rfc": "RFC",
+	"document.type.curp": "CURP",
+	"document.type.unsupported": "This document type is not accepted",
+	"document.number.required": "Document number is required",
+	"document.number.invalid": "Enter a valid {document} number",
+	"document.number.check_digit": "The {document} check digit is invalid",
+	"document.number.valid": "Valid {document}",
+
+	"payment_method.legend": "Payment method",
+	"payment_method.card": "Card",
+	"payment_method.store": "Cash at a store",
+	"payment_method.bank_account": "Bank transfer",
+	"payment.reference": "Reference",
+	"payment.amount": "Amount",
+	"payment.due_date": "Pay before",
+	"store.instructions": "Pay in cash at any {provider} location using this reference.",
+	"store.barcode": "Payment barcode",
+	"store.find_store": "Find a store",
+	"bank_transfer.instructions": "Make a SPEI transfer from your bank using these details.",
+	"bank_transfer.clabe": "CLABE",
+	"bank_transfer.bank": "Bank",
+
+	"saved_card.legend": "Saved cards",
+	"saved_card.label": "{brand} ending in {last4}",
+	"saved_card.expires": "Expires {expiry}",
+	"saved_card.expired": "Expired",
+	"saved_card.expiring_soon": "Expires soon",
+	"saved_card.delete": "Remove",
+
+	"three_d_secure.title": "Bank authentication",
+	"three_d_secure.cancel": "Cancel",
+
+	"error.card_declined": "The card was declined. Please try another card.",
+	"error.card_expired": "The card has expired. Please check the expiration date.",
+	"error.insufficient_funds": "The card has insufficient funds.",
+	"error.fraud_suspected":
+		"We could not process the payment with this card. Please contact your bank.",
+	"error.authentication_failed":
+		"The card could not be authenticated with your bank. Please try again or use another card.",
+	"error.invalid_request": "The payment details are invalid. Please review them and try again.",
+	"error.network": "We could not reach the payment processor. Please try again.",
+	"error.script_load": "The payment form could not be loaded. Please reload the page.",
+	"error.unknown": "An unexpected error occurred while processing the payment.",
+	"error.code.2004": "The card number is invalid.",
+	"error.code.2006": "Please enter the security code (CVV).",
+	"error.code.2007": "Test cards cannot be used in production.",
+	"error.code.2009": "The security code (CVV) is invalid.",
+	"error.code.2010": "3-D Secure authentication with your bank failed. Please try again.",
+	"error.code.2011": "This card type is not accepted.",
+	"error.code.3008": "The card is not enabled for online purchases.",
+};
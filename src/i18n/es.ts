@@ -0,0 +1,105 @@
+import type { MessageCatalog } from "./messages";
+
+export const es: MessageCatalog = {
+	"card_number.valid": "Tarjeta {brand} válida",
+	"card_number.invalid": "Número de tarjeta inválido",
+	"card_number.unsupported": "La marca de la tarjeta no es aceptada",
+	"cvv2.valid": "CVV válido",
+	"cvv2.invalid": "CVV inválido (se requieren {digits} dígitos)",
+	"holder_name.valid": "Nombre válido",
+	"holder_name.invalid":
+		"El nombre solo puede contener letras y espacios (mínimo {min} caracteres)",
+	"expiry.valid": "Fecha de expiración válida",
+	"expiry.invalid": "Fecha de expiración inválida",
+	"field.invalid": "Campo inválido",
+
+	"card_number.min": "El número de tarjeta debe tener al menos {min} dígitos",
+	"card_number.max": "El número de tarjeta no debe superar los {max} dígitos",
+	"card_number.format": "Formato de número de tarjeta inválido",
+	"holder_name.min": "El nombre del titular debe tener al menos {min} caracteres",
+	"holder_name.max": "El nombre del titular no debe superar los {max} caracteres",
+	"holder_name.format": "El nombre del titular solo puede contener letras y espacios",
+	"expiration_year.length": "El año de expiración debe tener 2 dígitos",
+	"expiration_year.numeric": "El año de expiración debe ser numérico",
+	"expiration_year.past": "El año de expiración no puede estar en el pasado",
+	"expiration_month.length": "El mes de expiración debe tener 2 dígitos",
+	"expiration_month.range": "El mes de expiración debe estar entre 01 y 12",
+	"expiry.expired": "La tarjeta está vencida",
+	"cvv2.min": "El CVV debe tener al menos {min} dígitos",
+	"cvv2.max": "El CVV no debe superar los {max} dígitos",
+	"cvv2.numeric": "El CVV debe ser numérico",
+	"cvv2.length": "El CVV debe tener {digits} dígitos para este tipo de tarjeta",
+
+	"address.city.required": "La ciudad es obligatoria",
+	"address.country_code.length": "El código de país debe tener 2 caracteres",
+	"address.postal_code.required": "El código postal es obligatorio",
+	"address.postal_code.format": "Formato de código postal inválido",
+	"address.line1.required": "La dirección es obligatoria",
+	"address.state.required": "El estado o departamento es obligatorio",
+	"address.state.invalid": "Selecciona un estado o departamento válido",
+	"address.legend": "Dirección de facturación",
+	"address.line1.label": "Dirección",
+	"address.line2.label": "Departamento, interior, etc. (opcional)",
+	"address.line3.label": "Referencia (opcional)",
+	"address.city.label": "Ciudad",
+	"address.state.label": "Estado",
+	"address.department.label": "Departamento",
+	"address.state.placeholder": "Selecciona",
+	"address.postal_code.label": "Código postal",
+
+	"document.type.label": "Tipo de documento",
+	"document.number.label": "Número de documento",
+	"document.type.dni": "DNI",
+	"document.type.ruc": "RUC",
+	"document.type.ce": "Carné de extranjería",
+	"document.type.passport": "Pasaporte",
+	"document.type.rfc": "RFC",
+	"document.type.curp": "CURP",
+	"document.type.unsupported": "Este tipo de documento no es aceptado",
+	"document.number.required": "El número de documento es obligatorio",
+	"document.number.invalid": "Ingresa un número de {document} válido",
+	"document.number.check_digit": "El dígito verificador del {document} no es válido",
+	"document.number.valid": "{document} válido",
+
+	"payment_method.legend": "Método de pago",
+	"payment_method.card": "Tarjeta",
+	"payment_method.store": "Efectivo en tienda",
+	"payment_method.bank_account": "Transferencia bancaria",
+	"payment.reference": "Referencia",
+	"payment.amount": "Monto",
+	"payment.due_date": "Paga antes del",
+	"store.instructions": "Paga en efectivo en cualquier punto {provider} con esta referencia.",
+	"store.barcode": "Código de barras de pago",
+	"store.find_store": "Buscar un establecimiento",
+	"bank_transfer.instructions": "Realiza una transferencia SPEI desde tu banco con estos datos.",
+	"bank_transfer.clabe": "CLABE",
+	"bank_transfer.bank": "Banco",
+
+	"saved_card.legend": "Tarjetas guardadas",
+	"saved_card.label": "{brand} terminada en {last4}",
+	"saved_card.expires": "Vence {expiry}",
+	"saved_card.expired": "Vencida",
+	"saved_card.expiring_soon": "Vence pronto",
+	"saved_card.delete": "Eliminar",
+
+	"three_d_secure.title": "Autenticación bancaria",
+	"three_d_secure.cancel": "Cancelar",
+
+	"error.card_declined": "La tarjeta fue rechazada. Intenta con otra tarjeta.",
+	"error.card_expired": "La tarjeta está vencida. Revisa la fecha de expiración.",
+	"error.insufficient_funds": "La tarjeta no tiene fondos suficientes.",
+	"error.fraud_suspected": "No pudimos procesar el pago con esta tarjeta. Contacta a tu banco.",
+	"error.authentication_failed":
+		"No se pudo autenticar la tarjeta con tu banco. Inténtalo de nuevo o usa otra tarjeta.",
+	"error.invalid_request": "Los datos de pago no son válidos. Revísalos e inténtalo de nuevo.",
+	"error.network": "No pudimos conectar con el procesador de pagos. Inténtalo de nuevo.",
+	"error.script_load": "No se pudo cargar el formulario de pago. Recarga la página.",
+	"error.unknown": "Ocurrió un error inesperado al procesar el pago.",
+	"error.code.2004": "El número de tarjeta no es válido.",
+	"error.code.2006": "Ingresa el código de seguridad (CVV).",
+	"error.code.2007": "No se pueden usar tarjetas de prueba en producción.",
+	"error.code.2009": "El código de seguridad (CVV) no es válido.",
+	"error.code.2010": "Falló la autenticación 3-D Secure con tu banco. Inténtalo de nuevo.",
+	"error.code.2011": "Este tipo de tarjeta no es aceptado.",
+	"error.code.3008": "La tarjeta no está habilitada para compras por internet.",
+};
@@ -0,0 +1,61 @@
+import { en } from "./en";
+import { es } from "./es";
+import type { MessageCatalog, MessageKey, MessageParams } from "./messages";
+
+export type { MessageCatalog, MessageKey, MessageParams, PlainMessageKey } from "./messages";
+
+/**
+ * Locales with a built-in catalog
+ */
+export type BuiltInLocale = "es" | "en";
+
+/**
+ * Any locale; unknown locales fall back to English unless messages are provided for them
+ */
+export type Locale = BuiltInLocale | (string & {});
+
+/**
+ * Per-locale message overrides and additions
+ */
+export type MessageOverrides = Partial<Record<Locale, Partial<MessageCatalog>>>;
+
+type ParamsArgs<K extends MessageKey> = MessageParams[K] extends undefined
+	? []
+	: [params: MessageParams[K]];
+
+/**
+ * Resolves a message key to text in a fixed locale
+ */
+export type Translate = <K extends MessageKey>(key: K, ...params: ParamsArgs<K>) => string;
+
+export const DEFAULT_LOCALE: BuiltInLocale = "en";
+
+export const CATALOGS: Record<BuiltInLocale, MessageCatalog> = { en, es };
+
+const interpolate = (template: string, params?: Record<string, string | number>): string =>
+	params
+		? template.replace(/\{(\w+)\}/g, (match, name: string) =>
+				name in params ? String(params[name]) : match,
+			)
+		: template;
+
+/**
+ * Create a translator for a locale.
+ * Lookup order: overrides for the locale, built-in locale, English overrides, English.
+ */
+export const createTranslator = (
+	locale: Locale = DEFAULT_LOCALE,
+	overrides: MessageOverrides = {},
+): Translate => {
+	const builtIn = CATALOGS[locale as BuiltInLocale] as MessageCatalog | undefined;
+	const localeOverrides = overrides[locale];
+	const fallbackOverrides = overrides[DEFAULT_LOCALE];
+
+	return (key, ...[params]) => {
+		const template =
+			localeOverrides?.[key] ?? builtIn?.[key] ?? fallbackOverrides?.[key] ?? en[key];
+		return interpolate(template, params);
+	};
+};
+
+export const defaultTranslate = createTranslator();
@@ -0,0 +1,126 @@
+/**
+ * Interpolation parameters per message key; `undefined` for messages without parameters
+ */
+export interface MessageParams {
+	// Field status
+	"card_number.valid": { brand: string };
+	"card_number.invalid": undefined;
+	"card_number.unsupported": undefined;
+	"cvv2.valid": undefined;
+	"cvv2.invalid": { digits: number };
+	"holder_name.valid": undefined;
+	"holder_name.invalid": { min: number };
+	"expiry.valid": undefined;
+	"expiry.invalid": undefined;
+	"field.invalid": undefined;
+
+	// Card schema
+	"card_number.min": { min: number };
+	"card_number.max": { max: number };
+	"card_number.format": undefined;
+	"holder_name.min": { min: number };
+	"holder_name.max": { max: number };
+	"holder_name.format": undefined;
+	"expiration_year.length": undefined;
+	"expiration_year.numeric": undefined;
+	"expiration_year.past": undefined;
+	"expiration_month.length": undefined;
+	"expiration_month.range": undefined;
+	"expiry.expired": undefined;
+	"cvv2.min": { min: number };
+	"cvv2.max": { max: number };
+	"cvv2.numeric": undefined;
+	"cvv2.length": { digits: number };
+
+	// Address schema
+	"address.city.required": undefined;
+	"address.country_code.length": undefined;
+	"address.postal_code.required": undefined;
+	"address.postal_code.format": undefined;
+	"address.line1.required": undefined;
+	"address.state.required": undefined;
+	"address.state.invalid": undefined;
+	"address.legend": undefined;
+	"address.line1.label": undefined;
+	"address.line2.label": undefined;
+	"address.line3.label": undefined;
+	"address.city.label": undefined;
+	"address.state.label": undefined;
+	"address.department.label": undefined;
+	"address.state.placeholder": undefined;
+	"address.postal_code.label": undefined;
+
+	// Identity documents
+	"document.type.label": undefined;
+	"document.number.label": undefined;
+	"document.type.dni": undefined;
+	"document.type.ruc": undefined;
+	"document.type.ce": undefined;
+	"document.type.passport": undefined;
+	"document.type.rfc": undefined;
+	"document.type.curp": undefined;
+	"document.type.unsupported": undefined;
+	"document.number.required": undefined;
+	"document.number.invalid": { document: string };
+	"document.number.check_digit": { document: string };
+	"document.number.valid": { document: string };
+
+	// Payment methods
+	"payment_method.legend": undefined;
+	"payment_method.card": undefined;
+	"payment_method.store": undefined;
+	"payment_method.bank_account": undefined;
+	"payment.reference": undefined;
+	"payment.amount": undefined;
+	"payment.due_date": undefined;
+	"store.instructions": { provider: string };
+	"store.barcode": undefined;
+	"store.find_store": undefined;
+	"bank_transfer.instructions": undefined;
+	"bank_transfer.clabe": undefined;
+	"bank_transfer.bank": undefined;
+
+	// Saved cards
+	"saved_card.legend": undefined;
+	"saved_card.label": { brand: string; last4: string };
+	"saved_card.expires": { expiry: string };
+	"saved_card.expired": undefined;
+	"saved_card.expiring_soon": undefined;
+	"saved_card.delete": undefined;
+
+	// 3-D Secure
+	"three_d_secure.title": undefined;
+	"three_d_secure.cancel": undefined;
+
+	// Request errors
+	"error.card_declined": undefined;
+	"error.card_expired": undefined;
+	"error.insufficient_funds": undefined;
+	"error.fraud_suspected": undefined;
+	"error.authentication_failed": undefined;
+	"error.invalid_request": undefined;
+	"error.network": undefined;
+	"error.script_load": undefined;
+	"error.unknown": undefined;
+	"error.code.2004": undefined;
+	"error.code.2006": undefined;
+	"error.code.2007": undefined;
+	"error.code.2009": undefined;
+	"error.code.2010": undefined;
+	"error.code.2011": undefined;
+	"error.code.3008": undefined;
+}
+
+export type MessageKey = keyof MessageParams;
+
+/**
+ * Complete set of messages for one locale
+ */
+export type MessageCatalog = Record<MessageKey, string>;
+
+/**
+ * Keys of messages without interpolation parameters
+ */
+export type PlainMessageKey = {
+	[K in MessageKey]: MessageParams[K] extends undefined ? K : never;
+}[MessageKey];
@@ -1,10 +1,144 @@
+import { isBrowser } from "./utils/environment";
+
 export { createOpenPay } from "./openpay-client";
 export { OpenPayClient } from "./openpay-client";
+export { useOpenPay } from "./hooks/useOpenPay";
+export {
+	OpenPayRequestError,
+	CardDeclinedError,
+	CardExpiredError,
+	InsufficientFundsError,
+	FraudSuspectedError,
+	AuthenticationFailedError,
+	InvalidRequestError,
+	NetworkError,
+	ScriptLoadError,
+	ERROR_CODES,
+	toOpenPayRequestError,
+} from "./errors";
+export type { OpenPayErrorKind } from "./errors";
+export { CATALOGS, createTranslator } from "./i18n";
+export type {
+	BuiltInLocale,
+	Locale,
+	MessageCatalog,
+	MessageKey,
+	MessageOverrides,
+	MessageParams,
+	Translate,
+} from "./i18n";
+export { OpenPayProvider } from "./components/OpenPayProvider";
+export type { OpenPayProviderProps } from "./components/OpenPayProvider";
+export { useOpenPayClient } from "./hooks/useOpenPayClient";
+export { useOpenPayStatus } from "./hooks/useOpenPayStatus";
+export { useDeviceSession } from "./hooks/useDeviceSession";
+export type { UseDeviceSessionOptions } from "./hooks/useDeviceSession";
+export { DeviceSessionManager } from "./device-session";
+export { createScriptLoader } from "./script-loader";
+export { redactCard, redactEvent } from "./telemetry";
+export { useCardForm } from "./hooks/useCardForm";
+export { useOpenPayField } from "./hooks/useOpenPayField";
+export type {
+	FieldRegistration,
+	OpenPayFieldName,
+	UseOpenPayFieldOptions,
+} from "./hooks/useOpenPayField";
+export { createAddressResolver, createCardResolver } from "./forms/react-hook-form";
+export type {
+	ResolverErrors,
+	ResolverFieldError,
+	ResolverResult,
+} from "./forms/react-hook-form";
+export { createAddressValidate, createCardValidate } from "./forms/formik";
+export type { FormikErrors } from "./forms/formik";
+export type { FormAdapterOptions } from "./forms/validate";
+export { useInstallments } from "./hooks/useInstallments";
+export { useSavedCards } from "./hooks/useSavedCards";
+export { useAddress } from "./hooks/useAddress";
+export type {
+	AddressErrors,
+	AddressField,
+	UseAddressOptions,
+	UseAddressResult,
+} from "./hooks/useAddress";
+export type { UseSavedCardsOptions } from "./hooks/useSavedCards";
+export type { UseInstallmentsOptions } from "./hooks/useInstallments";
+export type { CardFormSubmitOptions, UseCardFormOptions } from "./hooks/useCardForm";
+export { use3DSecure } from "./hooks/use3DSecure";
+export type { Use3DSecureOptions } from "./hooks/use3DSecure";
+export { useCheckout } from "./hooks/useCheckout";
+export type { UseCheckoutOptions, UseCheckoutResult } from "./hooks/useCheckout";
+export { INITIAL_CHECKOUT_STATE, canTransition, checkoutReducer, runCheckout } from "./checkout";
+export type { CheckoutDependencies } from "./checkout";
+export { ThreeDSecureFrame } from "./components/ThreeDSecureFrame";
+export type { ThreeDSecureFrameProps } from "./components/ThreeDSecureFrame";
+export { PaymentMethodSelector } from "./components/PaymentMethodSelector";
+export type { PaymentMethodSelectorProps } from "./components/PaymentMethodSelector";
+export { AddressFields } from "./components/AddressFields";
+export type { AddressFieldsProps } from "./components/AddressFields";
+export { SavedCardList } from "./components/SavedCardList";
+export type { SavedCardListProps } from "./components/SavedCardList";
+export { StorePaymentInstructions } from "./components/StorePaymentInstructions";
+export type { StorePaymentInstructionsProps } from "./components/StorePaymentInstructions";
+export { BankTransferInstructions } from "./components/BankTransferInstructions";
+export type { BankTransferInstructionsProps } from "./components/BankTransferInstructions";
+export { DocumentInput } from "./components/DocumentInput";
+export type { DocumentInputProps } from "./components/DocumentInput";
+export { CardNumberInput } from "./components/CardNumberInput";
+export { ExpiryInput } from "./components/ExpiryInput";
+export { CvvInput } from "./components/CvvInput";
+export type { CvvInputProps } from "./components/CvvInput";
+export { HolderNameInput } from "./components/HolderNameInput";
+export type { CardInputProps } from "./hooks/useCardField";
+export {
+	CARD_FORMATS,
+	DOCUMENT_FORMATS,
+	formatAmount,
+	formatCardNumber,
+	formatCvv,
+	formatDocumentNumber,
+	formatExpiry,
+	guessCardType,
+	parseExpiry,
+} from "./utils/formatter";
+export type { CardFormat, DocumentFormat } from "./utils/formatter";
+export { COUNTRIES, getCountryConfig, isBrandSupported } from "./utils/countries";
+export { findAddressState, formatPostalCode } from "./utils/address";
+export { localCardEngine, normalizeCardType } from "./utils/card-engine";
+export {
+	CARD_BRANDS,
+	UNKNOWN_BRAND,
+	detectCardBrand,
+	detectCardType,
+	getCardBrand,
+} from "./utils/card-brands";
+export type { CardBrand } from "./utils/card-brands";
+export {
+	createChargePayload,
+	getInstallmentPlans,
+	isInstallmentEligible,
+} from "./utils/installments";
+export { getCardExpiryStatus, getLastFour, getSavedCardType } from "./utils/saved-cards";
+export {
+	getThreeDSecureResult,
+	getThreeDSecureUrl,
+	parseThreeDSecureReturn,
+} from "./utils/three-d-secure";
+export {
+	DOCUMENT_TYPES,
+	createAddressSchema,
+	createCardSchema,
+	createDocumentSchema,
+	createGenericAddressSchema,
+	createGenericCardSchema,
+	createGenericDocumentSchema,
+} from "./utils/validator";
 
 export const getEnvironment = () => ({
-	isDevelopment: process.env.NODE_ENV === "development",
+	isDevelopment: typeof process !== "undefined" && process.env?.NODE_ENV === "development",
 	isBun: typeof process !== "undefined" && process.versions && process.versions.bun,
 	isNode: typeof process !== "undefined" && process.versions && process.versions.node,
+	isBrowser: isBrowser(),
 });
 
 export const DEV = {
@@ -32,8 +166,21 @@ export const DEV = {
 
 export type {
 	OpenPayConfig,
+	OpenPayStatus,
+	OpenPayState,
+	OpenPayStateListener,
+	ScriptLoader,
+	ScriptLoaderOptions,
+	CreateTokenOptions,
+	TokenRetryOptions,
+	ScriptOptions,
+	CardEngine,
 	UseOpenPayOptions,
 	Address,
+	AddressRules,
+	CustomerDocument,
+	DocumentType,
+	AddressState,
 	Card,
 	Token,
 	CardValidationResult,
@@ -42,11 +189,45 @@ export type {
 	SuccessCallback,
 	ErrorCallback,
 	DeviceSession,
+	DeviceSessionListener,
+	DeviceSessionOptions,
 	TokenOperations,
 	CardOperations,
 	OpenPayInstance,
 	CardType,
 	UseOpenPayResult,
 	CardFieldStatus,
+	ValidateFieldOptions,
 	FieldStatusRecord,
+	CardFormErrors,
+	CardFormSubmitResult,
+	CountryCode,
+	CountryConfig,
+	Currency,
+	ChargePayload,
+	InstallmentPlan,
+	InstallmentRules,
+	PaymentMethod,
+	PaymentMethodDetails,
+	SavedCard,
+	SavedCardExpiryStatus,
+	SavedCardUpdate,
+	SavedCardsAdapter,
+	PaymentInstructionsCharge,
+	StorePaymentMethod,
+	BankTransferPaymentMethod,
+	ThreeDSecureCharge,
+	ThreeDSecureMode,
+	ThreeDSecureResult,
+	ThreeDSecureStatus,
+	ChargeResult,
+	CheckoutEvent,
+	CheckoutState,
+	CheckoutStatus,
+	OpenPayEvent,
+	OpenPayEventListener,
+	OpenPayEventType,
+	OpenPayMiddleware,
+	RedactedCard,
+	RedactedError,
 } from "./types/openpay";
@@ -1,25 +1,155 @@
+import { DeviceSessionManager } from "./device-session";
+import { ScriptLoadError, toOpenPayRequestError } from "./errors";
+import { DEFAULT_LOCALE, type Locale, type Translate, createTranslator } from "./i18n";
+import { createScriptLoader } from "./script-loader";
+import { createEmitter, now, redactCard, redactError } from "./telemetry";
 import type {
 	Card,
+	CardEngine,
 	CardFieldStatus,
 	CardType,
 	CardValidationResult,
+	CountryConfig,
+	CreateTokenOptions,
 	OpenPayConfig,
 	OpenPayError,
+	OpenPayState,
+	OpenPayStateListener,
+	RedactedCard,
+	SavedCard,
+	SavedCardUpdate,
+	SavedCardsAdapter,
+	ScriptLoader,
 	Token,
+	ValidateFieldOptions,
 } from "./types/openpay";
+import { wait } from "./utils/async";
+import { getCardBrand } from "./utils/card-brands";
+import { localCardEngine, normalizeCardType } from "./utils/card-engine";
+import { getCountryConfig, isBrandSupported } from "./utils/countries";
+import { isBrowser } from "./utils/environment";
+
+const DEFAULT_TOKEN_RETRIES = 2;
+const DEFAULT_TOKEN_RETRY_DELAY = 500;
+
+type TokenRequest = (
+	resolve: (response: Token) => void,
+	reject: (error: OpenPayError) => void,
+) => void;
+
+interface InFlightToken {
+	promise: Promise<Token>;
+	/** Callers still waiting; retries stop once every caller has aborted */
+	waiting: number;
+}
+
+/**
+ * Identifies concurrent requests for the same card; only held while they are in flight
+ */
+const getCardFingerprint = (card: Record<string, unknown>): string =>
+	["card_number", "holder_name", "expiration_month", "expiration_year", "cvv2"]
+		.map((field) => String(card[field] ?? "").replace(/\s+/g, ""))
+		.join("|");
 
 export class OpenPayClient {
 	private initialized = false;
-	private deviceSessionId = "";
+	private state: OpenPayState = { status: "idle", error: null };
+	private listeners = new Set<OpenPayStateListener>();
+	private readyPromise: Promise<void> | null = null;
+	private references = 0;
+	private generation = 0;
+	private scriptLoader: ScriptLoader;
+	private emit: ReturnType<typeof createEmitter>;
+	private inFlightTokens = new Map<string, InFlightToken>();
+
+	/** Resolves messages in the configured locale */
+	public readonly translate: Translate;
+	/** Locale used for messages, amounts and dates */
+	public readonly locale: Locale;
+	/** Anti-fraud device session sent with every charge */
+	public readonly deviceSession: DeviceSessionManager;
 
 	constructor(private config: OpenPayConfig) {
-		this.initialize();
+		this.locale = config.locale ?? DEFAULT_LOCALE;
+		this.deviceSession = new DeviceSessionManager(config);
+		this.scriptLoader =
+			config.loadScript ?? createScriptLoader({ ...config.scripts, timeout: config.scriptTimeout });
+		this.translate = createTranslator(this.locale, config.messages);
+		this.emit = createEmitter(config);
+		// Stay inert until used: OpenPayProvider creates clients during render, which may be
+		// discarded, so loading starts from retain() in an effect or from the first call
+	}
+
+	/**
+	 * Resolves once the OpenPay scripts are loaded and configured.
+	 * Rejects with the initialization error if loading fails.
+	 */
+	public ready(): Promise<void> {
+		if (!this.readyPromise) {
+			this.readyPromise = this.initialize();
+		}
+		return this.readyPromise;
+	}
+
+	/**
+	 * Registers a consumer of the loaded scripts.
+	 * Returns a release function; the scripts are removed once the last consumer releases.
+	 */
+	public retain(): () => void {
+		this.references++;
+		this.ready().catch(() => {
+			// Failures are surfaced through getState() and subscribe()
+		});
+
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			this.references--;
+			if (this.references === 0) {
+				this.cleanup();
+			}
+		};
+	}
+
+	public getCountryConfig(): CountryConfig {
+		return getCountryConfig(this.config.country);
+	}
+
+	public getState(): OpenPayState {
+		return this.state;
+	}
+
+	/**
+	 * Registers a listener for initialization state changes.
+	 * Returns a function that removes the listener.
+	 */
+	public subscribe(listener: OpenPayStateListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private setState(state: OpenPayState): void {
+		this.state = state;
+		for (const listener of this.listeners) {
+			listener(state);
+		}
 	}
 
 	private async initialize(): Promise<void> {
+		const generation = this.generation;
+		this.setState({ status: "loading", error: null });
 		try {
+			if (!isBrowser()) {
+				throw new Error("OpenPay.js requires a browser environment");
+			}
 			await this.loadScripts();
 
+			// cleanup() ran while the scripts were loading
+			if (generation !== this.generation) return;
+
 			if (!window.OpenPay) {
 				throw new Error("OpenPay failed to initialize");
 			}
@@ -28,62 +158,210 @@ export class OpenPayClient {
 			window.OpenPay.setApiKey(this.config.publicKey);
 			window.OpenPay.setSandboxMode(this.config.isSandbox);
 
-			this.deviceSessionId = window.OpenPay.deviceData.setup("openpay-payment-form");
+			this.deviceSession.start();
 			this.initialized = true;
+			this.setState({ status: "ready", error: null });
 		} catch (error) {
-			throw new Error(`OpenPay initialization failed: ${error}`);
+			if (generation !== this.generation) return;
+			const initError = new ScriptLoadError(`OpenPay initialization failed: ${error}`, {
+				raw: error,
+			});
+			this.setState({ status: "error", error: initError });
+			throw initError;
 		}
 	}
 
-	private async loadScripts(): Promise<void> {
-		const OPENPAY_SCRIPTS = [
-			"https://js.openpay.pe/openpay.v1.min.js",
-			"https://js.openpay.pe/openpay-data.v1.min.js",
-		];
-
-		await Promise.all(OPENPAY_SCRIPTS.map((src) => this.loadScript(src)));
+	/**
+	 * Script URLs: configured self-hosted or proxied copies, or the country's OpenPay hosts
+	 */
+	public getScriptUrls(): { scriptUrl: string; dataScriptUrl: string } {
+		const country = this.getCountryConfig();
+		return {
+			scriptUrl: this.config.scripts?.scriptUrl ?? country.scriptUrl,
+			dataScriptUrl: this.config.scripts?.dataScriptUrl ?? country.dataScriptUrl,
+		};
 	}
 
-	private loadScript(src: string): Promise<void> {
-		return new Promise((resolve, reject) => {
-			if (document.querySelector(`script[src="${src}"]`)) {
-				resolve();
-				return;
-			}
-
-			const script = document.createElement("script");
-			script.src = src;
-			script.async = true;
-			script.onload = () => resolve();
-			script.onerror = () => reject(new Error(`Failed to load script: ${src}`));
-			document.head.appendChild(script);
-		});
+	private async loadScripts(): Promise<void> {
+		const { scriptUrl, dataScriptUrl } = this.getScriptUrls();
+		// openpay-data extends the OpenPay global, so the core script has to run first.
+		// A tag in the page says nothing about whether it has run yet; the globals do.
+		const scripts = [
+			{ src: scriptUrl, isLoaded: () => Boolean(window.OpenPay) },
+			{ src: dataScriptUrl, isLoaded: () => Boolean(window.OpenPay?.deviceData) },
+		];
+		for (const { src, isLoaded } of scripts) {
+			if (isLoaded()) continue;
+			const startedAt = now();
+			await this.scriptLoader(src, isLoaded);
+			this.emit({ type: "script_loaded", src, duration: now() - startedAt });
+		}
 	}
 
 	private checkInitialization(): void {
-		if (!this.initialized || !window.OpenPay) {
+		if (!this.initialized || !isBrowser() || !window.OpenPay) {
 			throw new Error("OpenPay not initialized");
 		}
 	}
 
-	public async createToken(card: Card): Promise<Token> {
+	/**
+	 * Validation backend for card checks: OpenPay.js in "remote" mode once loaded, else local
+	 */
+	private get cardEngine(): CardEngine {
+		if (
+			this.config.validationMode !== "remote" ||
+			!this.initialized ||
+			!isBrowser() ||
+			!window.OpenPay
+		) {
+			return localCardEngine;
+		}
+		const remote = window.OpenPay.card;
+		return {
+			validateCardNumber: (cardNumber) => remote.validateCardNumber(cardNumber),
+			validateCVC: (cvc, cardNumber) => remote.validateCVC(cvc, cardNumber),
+			validateExpiry: (month, year) => remote.validateExpiry(month, year),
+			cardType: (cardNumber) => normalizeCardType(remote.cardType(cardNumber)),
+		};
+	}
+
+	/**
+	 * Tokenize a card. Concurrent calls for the same card share one request, e.g. on a double
+	 * click, and transient failures are retried; declines are not.
+	 */
+	public async createToken(card: Card, options: CreateTokenOptions = {}): Promise<Token> {
+		options.signal?.throwIfAborted();
+		await this.ready();
+		this.checkInitialization();
+		return this.tokenize(
+			getCardFingerprint(card),
+			redactCard(card.card_number),
+			(resolve, reject) => window.OpenPay.token.create(card, resolve, reject),
+			options.signal,
+		);
+	}
+
+	public async createTokenFromForm(
+		form: HTMLFormElement | string,
+		options: CreateTokenOptions = {},
+	): Promise<Token> {
+		options.signal?.throwIfAborted();
+		await this.ready();
 		this.checkInitialization();
+		this.deviceSession.attach(form);
+		const info = window.OpenPay.extractFormInfo(form);
+		return this.tokenize(
+			getCardFingerprint(info),
+			redactCard(String(info.card_number ?? "")),
+			(resolve, reject) => window.OpenPay.token.extractFormAndCreate(form, resolve, reject),
+			options.signal,
+		);
+	}
+
+	/**
+	 * Join the in-flight request for a card, or start one as a new checkout attempt
+	 */
+	private tokenize(
+		fingerprint: string,
+		card: RedactedCard,
+		request: TokenRequest,
+		signal?: AbortSignal,
+	): Promise<Token> {
+		// Aborted while the scripts loaded; an abort listener added now would never fire
+		if (signal?.aborted) return Promise.reject(signal.reason);
+
+		let inFlight = this.inFlightTokens.get(fingerprint);
+		if (!inFlight) {
+			this.deviceSession.beginAttempt();
+			const isWanted = () => (this.inFlightTokens.get(fingerprint)?.waiting ?? 0) > 0;
+			inFlight = {
+				promise: this.requestToken(card, request, isWanted).finally(() =>
+					this.inFlightTokens.delete(fingerprint),
+				),
+				waiting: 0,
+			};
+			this.inFlightTokens.set(fingerprint, inFlight);
+		}
+
+		const shared = inFlight;
+		shared.waiting++;
 		return new Promise((resolve, reject) => {
-			window.OpenPay.token.create(
-				card,
-				(response: Token) => resolve(response),
-				(error: OpenPayError) => reject(error),
+			let settled = false;
+			const settle = () => {
+				settled = true;
+				shared.waiting--;
+				signal?.removeEventListener("abort", onAbort);
+			};
+			const onAbort = () => {
+				if (settled) return;
+				settle();
+				reject(signal?.reason);
+			};
+			signal?.addEventListener("abort", onAbort);
+			shared.promise.then(
+				(token) => {
+					if (settled) return;
+					settle();
+					resolve(token);
+				},
+				(error) => {
+					if (settled) return;
+					settle();
+					reject(error);
+				},
 			);
 		});
 	}
 
-	public async createTokenFromForm(form: HTMLFormElement | string): Promise<Token> {
-		this.checkInitialization();
+	/**
+	 * Request a token, retrying transient failures with exponential backoff while anyone waits
+	 */
+	private async requestToken(
+		card: RedactedCard,
+		request: TokenRequest,
+		isWanted: () => boolean,
+	): Promise<Token> {
+		const { retries = DEFAULT_TOKEN_RETRIES, retryDelay = DEFAULT_TOKEN_RETRY_DELAY } =
+			this.config.tokenRetry ?? {};
+		for (let retry = 0; ; retry++) {
+			try {
+				return await this.trackToken(card, request);
+			} catch (error) {
+				// Only network-level failures are retryable; a decline must never be charged twice
+				const requestError = toOpenPayRequestError(error);
+				if (!requestError.isRetryable || retry >= retries || !isWanted()) throw requestError;
+				await wait(retryDelay * 2 ** retry);
+			}
+		}
+	}
+
+	/**
+	 * Run a tokenization request and report it as token_* events
+	 */
+	private trackToken(card: RedactedCard, request: TokenRequest): Promise<Token> {
+		const startedAt = now();
+		this.emit({ type: "token_requested", card });
 		return new Promise((resolve, reject) => {
-			window.OpenPay.token.extractFormAndCreate(
-				form,
-				(response: Token) => resolve(response),
-				(error: OpenPayError) => reject(error),
+			request(
+				(response) => {
+					this.emit({
+						type: "token_succeeded",
+						card,
+						tokenId: response.data.id,
+						duration: now() - startedAt,
+					});
+					resolve(response);
+				},
+				(error) => {
+					const requestError = toOpenPayRequestError(error);
+					this.emit({
+						type: "token_failed",
+						card,
+						error: redactError(requestError),
+						duration: now() - startedAt,
+					});
+					reject(requestError);
+				},
 			);
 		});
 	}
@@ -94,9 +372,89 @@ export class OpenPayClient {
 		return window.OpenPay.extractFormInfo(form);
 	}
 
+	/**
+	 * Device session id of the current checkout attempt
+	 */
 	public getDeviceSessionId(): string {
 		this.checkInitialization();
-		return this.deviceSessionId;
+		return this.deviceSession.getId();
+	}
+
+	private getFieldStatus(
+		fieldName: keyof Card,
+		value: string,
+		cardNumber?: string,
+	): CardFieldStatus {
+		switch (fieldName) {
+			case "card_number": {
+				const isValidNumber = this.card.validateNumber(value);
+				const cardType = this.card.getType(value);
+				const isSupported = this.card.isSupportedBrand(cardType);
+				return {
+					isValid: isValidNumber && isSupported,
+					cardType,
+					message: isValidNumber
+						? isSupported
+							? this.translate("card_number.valid", {
+									brand: getCardBrand(cardType)?.displayName ?? cardType,
+								})
+							: this.translate("card_number.unsupported")
+						: value.length > 0
+							? this.translate("card_number.invalid")
+							: "",
+					isDirty: true,
+					value,
+				};
+			}
+			case "cvv2":
+				return {
+					isValid: this.card.validateCVC(value, cardNumber),
+					cardType: cardNumber ? this.card.getType(cardNumber) : undefined,
+					message: this.card.validateCVC(value, cardNumber)
+						? this.translate("cvv2.valid")
+						: value.length > 0
+							? this.translate("cvv2.invalid", {
+									digits: getCardBrand(this.card.getType(cardNumber ?? ""))?.cvvLength ?? 3,
+								})
+							: "",
+					isDirty: true,
+					value,
+				};
+			case "holder_name":
+				return {
+					isValid: this.card.validateHolderName(value),
+					message: this.card.validateHolderName(value)
+						? this.translate("holder_name.valid")
+						: value.length > 0
+							? this.translate("holder_name.invalid", { min: 3 })
+							: "",
+					isDirty: true,
+					value,
+				};
+			case "expiration_month":
+			case "expiration_year": {
+				const month = fieldName === "expiration_month" ? value : cardNumber || "";
+				const year = fieldName === "expiration_year" ? value : cardNumber || "";
+				const isValidExpiry = this.card.validateExpiry(month, year);
+				return {
+					isValid: isValidExpiry,
+					message: isValidExpiry
+						? this.translate("expiry.valid")
+						: month.length > 0 && year.length > 0
+							? this.translate("expiry.invalid")
+							: "",
+					isDirty: true,
+					value,
+				};
+			}
+			default:
+				return {
+					isValid: false,
+					message: this.translate("field.invalid"),
+					isDirty: true,
+					value,
+				};
+		}
 	}
 
 	public card = {
@@ -105,89 +463,42 @@ export class OpenPayClient {
 				fieldName: keyof Card,
 				value: string,
 				cardNumber?: string,
+				{ track = true }: ValidateFieldOptions = {},
 			): CardFieldStatus => {
-				this.checkInitialization();
-				switch (fieldName) {
-					case "card_number":
-						return {
-							isValid: this.card.validateNumber(value),
-							cardType: this.card.getType(value),
-							message: this.card.validateNumber(value)
-								? `Valid ${this.card.getType(value)} card`
-								: value.length > 0
-									? "Invalid card number"
-									: "",
-							isDirty: true,
-							value,
-						};
-					case "cvv2":
-						return {
-							isValid: this.card.validateCVC(value, cardNumber),
-							cardType: cardNumber ? this.card.getType(cardNumber) : undefined,
-							message: this.card.validateCVC(value, cardNumber)
-								? "Valid CVV"
-								: value.length > 0
-									? `Invalid CVV (${cardNumber && this.card.getType(cardNumber) === "american_express" ? "4" : "3"} digits required)`
-									: "",
-							isDirty: true,
-							value,
-						};
-					case "holder_name":
-						return {
-							isValid: this.card.validateHolderName(value),
-							message: this.card.validateHolderName(value)
-								? "Valid name"
-								: value.length > 0
-									? "Name must contain only letters and spaces (min 3 characters)"
-									: "",
-							isDirty: true,
-							value,
-						};
-					case "expiration_month":
-					case "expiration_year": {
-						const month = fieldName === "expiration_month" ? value : cardNumber || "";
-						const year = fieldName === "expiration_year" ? value : cardNumber || "";
-						const isValidExpiry = this.card.validateExpiry(month, year);
-						return {
-							isValid: isValidExpiry,
-							message: isValidExpiry
-								? "Valid expiration date"
-								: month.length > 0 && year.length > 0
-									? "Invalid expiration date"
-									: "",
-							isDirty: true,
-							value,
-						};
-					}
-					default:
-						return {
-							isValid: false,
-							message: "Invalid field",
-							isDirty: true,
-							value,
-						};
+				const status = this.getFieldStatus(fieldName, value, cardNumber);
+				if (track) {
+					this.emit({
+						type: "field_validated",
+						field: fieldName,
+						isValid: status.isValid,
+						cardType: status.cardType,
+					});
 				}
+				return status;
 			},
 		},
 
 		validateNumber: (cardNumber: string): boolean => {
-			this.checkInitialization();
-			return window.OpenPay.card.validateCardNumber(cardNumber);
+			return this.cardEngine.validateCardNumber(cardNumber);
 		},
 
 		validateCVC: (cvc: string, cardNumber?: string): boolean => {
-			this.checkInitialization();
-			return window.OpenPay.card.validateCVC(cvc, cardNumber);
+			return this.cardEngine.validateCVC(cvc, cardNumber);
 		},
 
 		validateExpiry: (month: string, year: string): boolean => {
-			this.checkInitialization();
-			return window.OpenPay.card.validateExpiry(month, year);
+			return this.cardEngine.validateExpiry(month, year);
 		},
 
 		getType: (cardNumber: string): CardType => {
-			this.checkInitialization();
-			return window.OpenPay.card.cardType(cardNumber) as CardType;
+			return this.cardEngine.cardType(cardNumber);
+		},
+
+		/**
+		 * Whether the configured country accepts the card type
+		 */
+		isSupportedBrand: (cardType: CardType): boolean => {
+			return isBrandSupported(cardType, this.config.country);
 		},
 
 		validateHolderName: (name: string): boolean => {
@@ -196,22 +507,21 @@ export class OpenPayClient {
 
 		// Complete card validation
 		validateCard: (card: Card): CardValidationResult => {
-			this.checkInitialization();
-
 			const result: CardValidationResult = {
 				isValid: false,
 				errors: {},
 				cardType: undefined,
 			};
 
-			const isCardNumberValid = this.card.validateNumber(card.card_number);
+			// Get and store card type
+			result.cardType = this.card.getType(card.card_number);
+
+			const isCardNumberValid =
+				this.card.validateNumber(card.card_number) && this.card.isSupportedBrand(result.cardType);
 			if (!isCardNumberValid) {
 				result.errors.cardNumber = true;
 			}
 
-			// Get and store card type
-			result.cardType = this.card.getType(card.card_number);
-
 			// Validate CVV
 			const isCvvValid = this.card.validateCVC(card.cvv2, card.card_number);
 			if (!isCvvValid) {
@@ -235,15 +545,56 @@ export class OpenPayClient {
 
 			return result;
 		},
+
+		/**
+		 * Update the expiry, CVV, holder name or address of a stored customer card.
+		 * Runs through OpenPay.js, so only the public key is needed.
+		 */
+		update: async (customerId: string, cardId: string, data: SavedCardUpdate): Promise<void> => {
+			await this.ready();
+			this.checkInitialization();
+			return new Promise((resolve, reject) => {
+				window.OpenPay.card.update(
+					data,
+					() => resolve(),
+					(error: OpenPayError) => reject(toOpenPayRequestError(error)),
+					customerId,
+					cardId,
+				);
+			});
+		},
 	};
 
-	public cleanup(): void {
-		const scripts = document.querySelectorAll('script[src*="openpay.pe"]');
-		for (const script of scripts) {
-			script.remove();
+	private get savedCardsAdapter(): SavedCardsAdapter {
+		if (!this.config.savedCards) {
+			throw new Error("Stored cards need a savedCards adapter in the OpenPay config");
 		}
+		return this.config.savedCards;
+	}
+
+	/**
+	 * Customers' stored cards; listing and deleting go through the configured backend adapter
+	 */
+	public savedCards = {
+		list: async (customerId: string): Promise<SavedCard[]> =>
+			this.savedCardsAdapter.list(customerId),
+
+		update: async (customerId: string, cardId: string, data: SavedCardUpdate): Promise<void> => {
+			const { update } = this.savedCardsAdapter;
+			return update ? update(customerId, cardId, data) : this.card.update(customerId, cardId, data);
+		},
+
+		delete: async (customerId: string, cardId: string): Promise<void> =>
+			this.savedCardsAdapter.delete(customerId, cardId),
+	};
+
+	public cleanup(): void {
+		this.scriptLoader.cleanup?.();
 		this.initialized = false;
-		this.deviceSessionId = "";
+		this.deviceSession.reset();
+		this.readyPromise = null;
+		this.generation++;
+		this.setState({ status: "idle", error: null });
 	}
 }
 
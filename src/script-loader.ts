@@ -0,0 +1,101 @@
+import type { ScriptLoader, ScriptLoaderOptions } from "./types/openpay";
+import { wait } from "./utils/async";
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+
+/**
+ * Create a script loader that injects `<script>` tags with an optional CSP nonce and integrity
+ * hash, retries failed loads with exponential backoff, and removes only the scripts it injected
+ */
+export const createScriptLoader = (options: ScriptLoaderOptions = {}): ScriptLoader => {
+	const {
+		nonce,
+		integrity = {},
+		timeout = DEFAULT_TIMEOUT,
+		retries = DEFAULT_RETRIES,
+		retryDelay = DEFAULT_RETRY_DELAY,
+	} = options;
+	const injected = new Set<HTMLScriptElement>();
+
+	const inject = (src: string): HTMLScriptElement => {
+		const script = document.createElement("script");
+		script.src = src;
+		script.async = true;
+		if (nonce) {
+			script.nonce = nonce;
+		}
+		const hash = integrity[src];
+		if (hash) {
+			script.integrity = hash;
+			// Integrity checks on another origin need a CORS request
+			script.crossOrigin = "anonymous";
+		}
+		document.head.appendChild(script);
+		injected.add(script);
+		return script;
+	};
+
+	const attempt = (src: string, reuseExisting: boolean, isLoaded?: () => boolean): Promise<void> =>
+		new Promise((resolve, reject) => {
+			// Reuse a tag already in the page, e.g. one rendered by the server with its own nonce
+			const existing = reuseExisting
+				? document.querySelector<HTMLScriptElement>(`script[src="${src}"]`)
+				: null;
+			// A tag the page rendered may have run before anyone listened for its load event
+			if (existing && (existing.dataset.loaded === "true" || isLoaded?.())) {
+				existing.dataset.loaded = "true";
+				resolve();
+				return;
+			}
+
+			const script = existing ?? inject(src);
+			const settle = (error?: Error) => {
+				clearTimeout(timer);
+				script.removeEventListener("load", onLoad);
+				script.removeEventListener("error", onError);
+				if (!error) {
+					script.dataset.loaded = "true";
+					resolve();
+					return;
+				}
+				// A failed tag never loads again; drop ours so the retry injects a fresh one
+				if (injected.delete(script)) {
+					script.remove();
+				}
+				reject(error);
+			};
+			const onLoad = () => settle();
+			const onError = () => settle(new Error(`Failed to load script: ${src}`));
+			const timer = setTimeout(
+				() => settle(new Error(`Timed out loading script: ${src}`)),
+				timeout,
+			);
+
+			script.addEventListener("load", onLoad);
+			script.addEventListener("error", onError);
+		});
+
+	const load = async (src: string, isLoaded?: () => boolean): Promise<void> => {
+		if (isLoaded?.()) return;
+		for (let retry = 0; ; retry++) {
+			try {
+				await attempt(src, retry === 0, isLoaded);
+				return;
+			} catch (error) {
+				if (retry >= retries) throw error;
+				await wait(retryDelay * 2 ** retry);
+			}
+		}
+	};
+
+	return Object.assign(load, {
+		cleanup: () => {
+			for (const script of injected) {
+				script.remove();
+			}
+			injected.clear();
+		},
+	});
+};
@@ -0,0 +1,65 @@
+export { OpenPayServerClient, createOpenPayServer } from "./openpay-server";
+export type { ListOptions, OpenPayServerConfig } from "./openpay-server";
+export {
+	bankChargeRequestSchema,
+	captureRequestSchema,
+	chargeRequestSchema,
+	chargeSchema,
+	customerRequestSchema,
+	customerSchema,
+	refundRequestSchema,
+	refundSchema,
+	storeChargeRequestSchema,
+	storedCardRequestSchema,
+	storedCardSchema,
+} from "./schemas";
+export type {
+	BankChargeRequest,
+	CaptureRequest,
+	Charge,
+	ChargeRequest,
+	Customer,
+	CustomerRequest,
+	Refund,
+	RefundRequest,
+	StoreChargeRequest,
+	StoredCard,
+	StoredCardRequest,
+} from "./schemas";
+export { getWebhookEventKey, handleWebhook } from "./webhooks";
+export type {
+	WebhookHandlers,
+	WebhookOptions,
+	WebhookRequest,
+	WebhookResult,
+} from "./webhooks";
+export {
+	bankTransferPaymentMethodSchema,
+	paymentMethodDetailsSchema,
+	storePaymentMethodSchema,
+	webhookEventSchema,
+	unknownWebhookEventSchema,
+	isKnownWebhookEventType,
+	webhookTransactionSchema,
+} from "../utils/validator";
+export type {
+	BankTransferPaymentMethod,
+	PaymentMethodDetails,
+	StorePaymentMethod,
+	WebhookEvent,
+	WebhookEventType,
+	UnknownWebhookEvent,
+	WebhookTransaction,
+} from "../utils/validator";
+export {
+	OpenPayRequestError,
+	CardDeclinedError,
+	CardExpiredError,
+	InsufficientFundsError,
+	FraudSuspectedError,
+	AuthenticationFailedError,
+	InvalidRequestError,
+	NetworkError,
+	ScriptLoadError,
+	toOpenPayRequestError,
+} from "../errors";
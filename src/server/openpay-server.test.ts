@@ -0,0 +1,161 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+	CardDeclinedError,
+	InvalidRequestError,
+	NetworkError,
+	OpenPayRequestError,
+} from "../errors";
+import { createOpenPayServer } from "./openpay-server";
+
+interface RecordedRequest {
+	method?: string;
+	url?: string;
+	authorization?: string;
+	body: unknown;
+}
+
+/**
+ * Local mock of the OpenPay API: records requests and answers with the next queued response
+ */
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let reply: { status: number; body: string; contentType?: string };
+
+const charge = (status: string) => ({
+	id: "tr_1",
+	amount: 100,
+	method: "card",
+	operation_type: "in",
+	transaction_type: "charge",
+	status,
+	creation_date: "2026-01-01T00:00:00-05:00",
+	currency: "PEN",
+});
+
+const respondWith = (status: number, body: unknown, contentType = "application/json") => {
+	reply = { status, body: typeof body === "string" ? body : JSON.stringify(body), contentType };
+};
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		let raw = "";
+		req.on("data", (chunk) => {
+			raw += chunk;
+		});
+		req.on("end", () => {
+			requests.push({
+				method: req.method,
+				url: req.url,
+				authorization: req.headers.authorization,
+				body: raw ? JSON.parse(raw) : undefined,
+			});
+			res.writeHead(reply.status, { "Content-Type": reply.contentType ?? "application/json" });
+			res.end(reply.body);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+	requests = [];
+	respondWith(200, charge("completed"));
+});
+
+const createServerClient = () =>
+	createOpenPayServer({ merchantId: "m_test", privateKey: "sk_test", isSandbox: true, baseUrl });
+
+const cardCharge = {
+	source_id: "tok_1",
+	device_session_id: "dev_1",
+	amount: 100,
+	description: "Order #1001",
+};
+
+describe("OpenPayServerClient", () => {
+	it("sends requests to the merchant path with basic auth and the country currency", async () => {
+		await createServerClient().charges.create(cardCharge, "cus_1");
+
+		expect(requests).toEqual([
+			{
+				method: "POST",
+				url: "/v1/m_test/customers/cus_1/charges",
+				authorization: `Basic ${btoa("sk_test:")}`,
+				body: { currency: "PEN", method: "card", ...cardCharge },
+			},
+		]);
+	});
+
+	it("maps an OpenPay error body to the typed error", async () => {
+		respondWith(402, {
+			category: "gateway",
+			description: "The card was declined",
+			error_code: 3001,
+			http_code: 402,
+			request_id: "req_1",
+		});
+
+		const error = await createServerClient()
+			.charges.create(cardCharge)
+			.catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(CardDeclinedError);
+		expect(error).toMatchObject({ code: 3001, httpStatus: 402, requestId: "req_1" });
+	});
+
+	it("uses the HTTP status for an error body that is not JSON", async () => {
+		respondWith(502, "<html>Bad Gateway</html>", "text/html");
+
+		const error = await createServerClient()
+			.charges.get("tr_1")
+			.catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(OpenPayRequestError);
+		expect(error).toMatchObject({ httpStatus: 502, code: 0 });
+	});
+
+	it("rejects a response that does not match its schema with a typed error", async () => {
+		respondWith(200, { id: "tr_1" });
+
+		await expect(createServerClient().charges.get("tr_1")).rejects.toBeInstanceOf(
+			OpenPayRequestError,
+		);
+	});
+
+	it("accepts charge statuses it does not know", async () => {
+		respondWith(200, charge("chargeback_pending"));
+		await expect(createServerClient().charges.get("tr_1")).resolves.toMatchObject({
+			status: "chargeback_pending",
+		});
+
+		respondWith(200, charge("a_status_added_later"));
+		await expect(createServerClient().charges.create(cardCharge)).resolves.toMatchObject({
+			status: "a_status_added_later",
+		});
+	});
+
+	it("rejects invalid input without sending it", async () => {
+		const pending = createServerClient().charges.create({ ...cardCharge, source_id: "" });
+
+		await expect(pending).rejects.toBeInstanceOf(InvalidRequestError);
+		expect(requests).toHaveLength(0);
+	});
+
+	it("reports a request that never reached OpenPay as a NetworkError", async () => {
+		const client = createOpenPayServer({
+			merchantId: "m_test",
+			privateKey: "sk_test",
+			isSandbox: true,
+			fetch: () => Promise.reject(new TypeError("fetch failed")),
+		});
+
+		await expect(client.customers.get("cus_1")).rejects.toBeInstanceOf(NetworkError);
+	});
+});
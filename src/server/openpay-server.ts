@@ -0,0 +1,285 @@
+import type { z } from "zod";
+import {
+	InvalidRequestError,
+	NetworkError,
+	OpenPayRequestError,
+	toOpenPayRequestError,
+} from "../errors";
+import type { CountryCode, OpenPayError } from "../types/openpay";
+import { getCountryConfig } from "../utils/countries";
+import {
+	type BankChargeRequest,
+	type CaptureRequest,
+	type Charge,
+	type ChargeRequest,
+	type Customer,
+	type CustomerRequest,
+	type RefundRequest,
+	type StoreChargeRequest,
+	type StoredCard,
+	type StoredCardRequest,
+	bankChargeRequestSchema,
+	captureRequestSchema,
+	chargeRequestSchema,
+	chargeSchema,
+	customerRequestSchema,
+	customerSchema,
+	refundRequestSchema,
+	storeChargeRequestSchema,
+	storedCardRequestSchema,
+	storedCardSchema,
+} from "./schemas";
+
+/**
+ * Server Configuration; never expose the private key to the browser
+ */
+export interface OpenPayServerConfig {
+	merchantId: string;
+	privateKey: string;
+	isSandbox: boolean;
+	/** Merchant environment, defaults to "PE" */
+	country?: CountryCode;
+	/** Overrides the API base URL, e.g. to point at a local mock server */
+	baseUrl?: string;
+	/** Defaults to the global fetch */
+	fetch?: typeof fetch;
+}
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+const parseJson = (text: string): unknown => {
+	if (!text) return undefined;
+	try {
+		return JSON.parse(text);
+	} catch {
+		// Gateways in front of the API may answer with HTML
+		return undefined;
+	}
+};
+
+/**
+ * Check a request body before it is sent; rejects like every other failure of the client
+ */
+const parseRequest = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T => {
+	const parsed = schema.safeParse(input);
+	if (!parsed.success) {
+		throw new InvalidRequestError(`Invalid OpenPay request: ${parsed.error.message}`, {
+			raw: parsed.error,
+		});
+	}
+	return parsed.data;
+};
+
+export interface ListOptions {
+	offset?: number;
+	limit?: number;
+}
+
+export class OpenPayServerClient {
+	constructor(private config: OpenPayServerConfig) {}
+
+	private get baseUrl(): string {
+		if (this.config.baseUrl) {
+			return `${this.config.baseUrl.replace(/\/$/, "")}/${this.config.merchantId}`;
+		}
+		const country = getCountryConfig(this.config.country);
+		const apiUrl = this.config.isSandbox ? country.sandboxApiUrl : country.apiUrl;
+		return `${apiUrl}/${this.config.merchantId}`;
+	}
+
+	private async request<T>(
+		method: HttpMethod,
+		path: string,
+		schema: z.ZodType<T, z.ZodTypeDef, unknown> | null,
+		body?: unknown,
+	): Promise<T> {
+		const fetchImpl = this.config.fetch ?? globalThis.fetch;
+		let response: Response;
+		try {
+			response = await fetchImpl(`${this.baseUrl}${path}`, {
+				method,
+				headers: {
+					Authorization: `Basic ${btoa(`${this.config.privateKey}:`)}`,
+					"Content-Type": "application/json",
+					Accept: "application/json",
+				},
+				body: body === undefined ? undefined : JSON.stringify(body),
+			});
+		} catch (error) {
+			throw new NetworkError(`OpenPay request failed: ${error}`, { raw: error });
+		}
+
+		const payload = parseJson(await response.text());
+
+		if (!response.ok) {
+			const data = (payload ?? {}) as Partial<OpenPayError["data"]>;
+			throw toOpenPayRequestError({
+				message: data.description ?? response.statusText,
+				status: response.status,
+				data: {
+					category: data.category ?? "request",
+					description: data.description ?? response.statusText,
+					error_code: data.error_code ?? 0,
+					http_code: data.http_code ?? response.status,
+					request_id: data.request_id ?? "",
+				},
+			} satisfies OpenPayError);
+		}
+
+		if (!schema) return payload as T;
+		const parsed = schema.safeParse(payload);
+		if (!parsed.success) {
+			// Keep every failure of the client an OpenPayRequestError
+			throw new OpenPayRequestError(`Unexpected OpenPay response: ${parsed.error.message}`, {
+				httpStatus: response.status,
+				raw: parsed.error,
+			});
+		}
+		return parsed.data;
+	}
+
+	private customerPath(customerId?: string): string {
+		return customerId ? `/customers/${encodeURIComponent(customerId)}` : "";
+	}
+
+	private listQuery({ offset, limit }: ListOptions = {}): string {
+		const params = new URLSearchParams();
+		if (offset !== undefined) params.set("offset", String(offset));
+		if (limit !== undefined) params.set("limit", String(limit));
+		const query = params.toString();
+		return query ? `?${query}` : "";
+	}
+
+	public charges = {
+		/**
+		 * Charge a token or stored card, or create a store or bank transfer reference.
+		 * Pass customerId to charge a stored customer card.
+		 */
+		create: async (
+			charge: ChargeRequest | StoreChargeRequest | BankChargeRequest,
+			customerId?: string,
+		): Promise<Charge> => {
+			const body =
+				charge.method === "store"
+					? parseRequest(storeChargeRequestSchema, charge)
+					: charge.method === "bank_account"
+						? parseRequest(bankChargeRequestSchema, charge)
+						: parseRequest(chargeRequestSchema, charge);
+			return this.request("POST", `${this.customerPath(customerId)}/charges`, chargeSchema, {
+				currency: getCountryConfig(this.config.country).currency,
+				...body,
+			});
+		},
+
+		get: (chargeId: string, customerId?: string): Promise<Charge> => {
+			return this.request(
+				"GET",
+				`${this.customerPath(customerId)}/charges/${encodeURIComponent(chargeId)}`,
+				chargeSchema,
+			);
+		},
+
+		/**
+		 * Capture a charge created with `capture: false`
+		 */
+		capture: async (
+			chargeId: string,
+			capture: CaptureRequest = {},
+			customerId?: string,
+		): Promise<Charge> => {
+			return this.request(
+				"POST",
+				`${this.customerPath(customerId)}/charges/${encodeURIComponent(chargeId)}/capture`,
+				chargeSchema,
+				parseRequest(captureRequestSchema, capture),
+			);
+		},
+
+		refund: async (
+			chargeId: string,
+			refund: RefundRequest = {},
+			customerId?: string,
+		): Promise<Charge> => {
+			return this.request(
+				"POST",
+				`${this.customerPath(customerId)}/charges/${encodeURIComponent(chargeId)}/refund`,
+				chargeSchema,
+				parseRequest(refundRequestSchema, refund),
+			);
+		},
+	};
+
+	public customers = {
+		create: async (customer: CustomerRequest): Promise<Customer> => {
+			return this.request(
+				"POST",
+				"/customers",
+				customerSchema,
+				parseRequest(customerRequestSchema, customer),
+			);
+		},
+
+		get: (customerId: string): Promise<Customer> => {
+			return this.request("GET", this.customerPath(customerId), customerSchema);
+		},
+
+		update: async (customerId: string, customer: CustomerRequest): Promise<Customer> => {
+			return this.request(
+				"PUT",
+				this.customerPath(customerId),
+				customerSchema,
+				parseRequest(customerRequestSchema, customer),
+			);
+		},
+
+		delete: async (customerId: string): Promise<void> => {
+			await this.request("DELETE", this.customerPath(customerId), null);
+		},
+
+		list: (options?: ListOptions): Promise<Customer[]> => {
+			return this.request("GET", `/customers${this.listQuery(options)}`, customerSchema.array());
+		},
+	};
+
+	public cards = {
+		/**
+		 * Store a tokenized card for a customer
+		 */
+		create: async (customerId: string, card: StoredCardRequest): Promise<StoredCard> => {
+			return this.request(
+				"POST",
+				`${this.customerPath(customerId)}/cards`,
+				storedCardSchema,
+				parseRequest(storedCardRequestSchema, card),
+			);
+		},
+
+		get: (customerId: string, cardId: string): Promise<StoredCard> => {
+			return this.request(
+				"GET",
+				`${this.customerPath(customerId)}/cards/${encodeURIComponent(cardId)}`,
+				storedCardSchema,
+			);
+		},
+
+		list: (customerId: string, options?: ListOptions): Promise<StoredCard[]> => {
+			return this.request(
+				"GET",
+				`${this.customerPath(customerId)}/cards${this.listQuery(options)}`,
+				storedCardSchema.array(),
+			);
+		},
+
+		delete: async (customerId: string, cardId: string): Promise<void> => {
+			await this.request(
+				"DELETE",
+				`${this.customerPath(customerId)}/cards/${encodeURIComponent(cardId)}`,
+				null,
+			);
+		},
+	};
+}
+
+export const createOpenPayServer = (config: OpenPayServerConfig): OpenPayServerClient => {
+	return new OpenPayServerClient(config);
+};
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { addressSchema, paymentMethodDetailsSchema } from "../utils/validator";
+
+/**
+ * Customer data sent along with a charge or when creating a customer
+ */
+export const customerRequestSchema = z
+	.object({
+		name: z.string().min(1, "Customer name is required"),
+		last_name: z.string().optional(),
+		email: z.string().email("Invalid customer email"),
+		phone_number: z.string().optional(),
+		external_id: z.string().optional(),
+		requires_account: z.boolean().optional(),
+		address: addressSchema.optional(),
+	})
+	.strict();
+
+/**
+ * Fields shared by card, store and bank charge requests
+ */
+const chargeRequestFields = {
+	amount: z.number().positive("Amount must be greater than 0"),
+	currency: z.string().length(3, "Currency must be a 3-letter ISO code").optional(),
+	description: z.string().min(1, "Description is required"),
+	order_id: z.string().optional(),
+	customer: customerRequestSchema.optional(),
+	metadata: z.record(z.string()).optional(),
+};
+
+/**
+ * Card charge request
+ */
+export const chargeRequestSchema = z
+	.object({
+		method: z.literal("card").default("card"),
+		/** Token id or stored card id */
+		source_id: z.string().min(1, "source_id is required"),
+		device_session_id: z.string().min(1, "device_session_id is required"),
+		/** false only authorizes; capture later with charges.capture */
+		capture: z.boolean().optional(),
+		use_3d_secure: z.boolean().optional(),
+		redirect_url: z.string().url().optional(),
+		/** Installments (cuotas, meses sin intereses) */
+		payment_plan: z
+			.object({
+				payments: z.number().int().min(2, "An installment plan needs at least 2 payments"),
+			})
+			.strict()
+			.optional(),
+		...chargeRequestFields,
+	})
+	.strict();
+
+/**
+ * Cash payment at a store (PagoEfectivo, Paynet); the response carries the payment reference
+ */
+export const storeChargeRequestSchema = z
+	.object({
+		method: z.literal("store"),
+		/** ISO 8601 date after which the reference can no longer be paid */
+		due_date: z.string().optional(),
+		...chargeRequestFields,
+	})
+	.strict();
+
+/**
+ * SPEI bank transfer; the response carries the CLABE and reference to pay to
+ */
+export const bankChargeRequestSchema = z
+	.object({
+		method: z.literal("bank_account"),
+		due_date: z.string().optional(),
+		...chargeRequestFields,
+	})
+	.strict();
+
+export const captureRequestSchema = z
+	.object({
+		amount: z.number().positive("Amount must be greater than 0").optional(),
+	})
+	.strict();
+
+export const refundRequestSchema = z
+	.object({
+		description: z.string().optional(),
+		amount: z.number().positive("Amount must be greater than 0").optional(),
+	})
+	.strict();
+
+/**
+ * Stored card creation from a token
+ */
+export const storedCardRequestSchema = z
+	.object({
+		token_id: z.string().min(1, "token_id is required"),
+		device_session_id: z.string().min(1, "device_session_id is required"),
+	})
+	.strict();
+
+/**
+ * Card as returned by the REST API; the number is always masked
+ */
+export const storedCardSchema = z
+	.object({
+		id: z.string(),
+		type: z.string(),
+		brand: z.string(),
+		card_number: z.string(),
+		holder_name: z.string(),
+		expiration_year: z.string(),
+		expiration_month: z.string(),
+		allows_charges: z.boolean(),
+		allows_payouts: z.boolean(),
+		creation_date: z.string(),
+		bank_name: z.string().nullish(),
+		bank_code: z.string().nullish(),
+		customer_id: z.string().nullish(),
+		address: addressSchema.nullish(),
+	})
+	.passthrough();
+
+export const customerSchema = z
+	.object({
+		id: z.string(),
+		name: z.string(),
+		last_name: z.string().nullish(),
+		email: z.string(),
+		phone_number: z.string().nullish(),
+		external_id: z.string().nullish(),
+		status: z.string().optional(),
+		creation_date: z.string(),
+		address: addressSchema.nullish(),
+	})
+	.passthrough();
+
+export const refundSchema = z
+	.object({
+		id: z.string(),
+		amount: z.number(),
+		authorization: z.string().nullish(),
+		method: z.string(),
+		operation_type: z.string(),
+		transaction_type: z.string(),
+		status: z.string(),
+		creation_date: z.string(),
+		description: z.string().nullish(),
+	})
+	.passthrough();
+
+export const chargeSchema = z
+	.object({
+		id: z.string(),
+		amount: z.number(),
+		authorization: z.string().nullish(),
+		method: z.string(),
+		operation_type: z.string(),
+		transaction_type: z.string(),
+		// in_progress, completed, failed, cancelled, refunded, charge_pending, chargeback_*…;
+		// a status added by OpenPay must not fail a charge that already went through
+		status: z.string(),
+		conciliated: z.boolean().optional(),
+		creation_date: z.string(),
+		operation_date: z.string().optional(),
+		description: z.string().nullish(),
+		error_message: z.string().nullish(),
+		order_id: z.string().nullish(),
+		currency: z.string(),
+		customer_id: z.string().nullish(),
+		card: storedCardSchema.partial({ id: true, creation_date: true }).optional(),
+		refund: refundSchema.nullish(),
+		due_date: z.string().nullish(),
+		payment_method: paymentMethodDetailsSchema.optional(),
+	})
+	.passthrough();
+
+/**
+ * Inferred Types
+ */
+export type CustomerRequest = z.input<typeof customerRequestSchema>;
+export type ChargeRequest = z.input<typeof chargeRequestSchema>;
+export type StoreChargeRequest = z.input<typeof storeChargeRequestSchema>;
+export type BankChargeRequest = z.input<typeof bankChargeRequestSchema>;
+export type CaptureRequest = z.infer<typeof captureRequestSchema>;
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
+export type StoredCardRequest = z.infer<typeof storedCardRequestSchema>;
+export type StoredCard = z.infer<typeof storedCardSchema>;
+export type Customer = z.infer<typeof customerSchema>;
+export type Refund = z.infer<typeof refundSchema>;
+export type Charge = z.infer<typeof chargeSchema>;
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import { type WebhookRequest, getWebhookEventKey, handleWebhook } from "./webhooks";
+
+const credentials = { username: "openpay", password: "s3cret" };
+const authorization = `Basic ${btoa("openpay:s3cret")}`;
+
+const chargeSucceeded = {
+	type: "charge.succeeded",
+	event_date: "2026-01-01T00:00:00-05:00",
+	transaction: {
+		id: "tr_1",
+		amount: 100,
+		status: "completed",
+		method: "card",
+		operation_type: "in",
+		transaction_type: "charge",
+		creation_date: "2026-01-01T00:00:00-05:00",
+		order_id: "order_1",
+	},
+};
+
+const verification = {
+	type: "verification",
+	event_date: "2026-01-01T00:00:00-05:00",
+	verification_code: "abc123",
+};
+
+const delivery = (body: unknown, headers: WebhookRequest["headers"] = { authorization }) => ({
+	headers,
+	body,
+});
+
+describe("handleWebhook", () => {
+	it.each([
+		["no", {}],
+		["a wrong", { authorization: `Basic ${btoa("openpay:wrong")}` }],
+		["a non-basic", { authorization: "Bearer token" }],
+		["an undecodable", { authorization: "Basic %%%" }],
+	])("answers 401 to %s authorization without calling handlers", async (_, headers) => {
+		const handler = vi.fn();
+
+		const result = await handleWebhook(
+			delivery(chargeSucceeded, headers),
+			{ "charge.succeeded": handler },
+			{ credentials },
+		);
+
+		expect(result.status).toBe(401);
+		expect(result.headers).toEqual({ "WWW-Authenticate": 'Basic realm="openpay-webhook"' });
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("accepts the configured credentials from a Fetch API request", async () => {
+		const handler = vi.fn();
+		const request = new Request("https://shop.example/webhooks", {
+			method: "POST",
+			headers: { Authorization: authorization },
+			body: JSON.stringify(chargeSucceeded),
+		});
+
+		const result = await handleWebhook(request, { "charge.succeeded": handler }, { credentials });
+
+		expect(result).toMatchObject({ status: 200, event: chargeSucceeded });
+		expect(handler).toHaveBeenCalledWith(chargeSucceeded);
+	});
+
+	it("passes the verification code to its handler", async () => {
+		const handler = vi.fn();
+
+		const result = await handleWebhook(delivery(verification), {
+			verification: handler,
+		});
+
+		expect(result.status).toBe(200);
+		expect(handler).toHaveBeenCalledWith(expect.objectContaining({ verification_code: "abc123" }));
+	});
+
+	it("skips a delivery that was already processed", async () => {
+		const processed = new Set<string>();
+		const handler = vi.fn();
+		const options = {
+			idempotency: {
+				isProcessed: (key: string) => processed.has(key),
+				markProcessed: (key: string) => {
+					processed.add(key);
+				},
+			},
+		};
+
+		const first = await handleWebhook(
+			delivery(chargeSucceeded),
+			{ "charge.succeeded": handler },
+			options,
+		);
+		const second = await handleWebhook(
+			delivery(chargeSucceeded),
+			{ "charge.succeeded": handler },
+			options,
+		);
+
+		expect(first.duplicate).toBeUndefined();
+		expect(second).toMatchObject({ status: 200, duplicate: true });
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(processed).toEqual(new Set(["charge.succeeded:tr_1"]));
+	});
+
+	it("answers 500 and does not mark the delivery when the handler throws", async () => {
+		const markProcessed = vi.fn();
+
+		const result = await handleWebhook(
+			delivery(chargeSucceeded),
+			{
+				"charge.succeeded": () => {
+					throw new Error("database down");
+				},
+			},
+			{ idempotency: { isProcessed: () => false, markProcessed } },
+		);
+
+		expect(result.status).toBe(500);
+		expect(markProcessed).not.toHaveBeenCalled();
+	});
+
+	it("acknowledges event types the schema does not model", async () => {
+		const onUnknownEvent = vi.fn();
+		const chargeback = { type: "chargeback.created", event_date: "2026-01-01", transaction: {} };
+
+		const result = await handleWebhook(delivery(chargeback), {}, { onUnknownEvent });
+
+		expect(result).toMatchObject({ status: 200, unknownEvent: chargeback });
+		expect(onUnknownEvent).toHaveBeenCalledWith(chargeback);
+	});
+
+	it.each([
+		["malformed JSON", "{not json"],
+		["a known type with a missing transaction", { type: "charge.succeeded", event_date: "x" }],
+		["a body without a type", { transaction: chargeSucceeded.transaction }],
+	])("answers 400 to %s", async (_, body) => {
+		const result = await handleWebhook(delivery(body), {});
+		expect(result.status).toBe(400);
+	});
+});
+
+describe("getWebhookEventKey", () => {
+	it("keys a delivery by type and transaction", () => {
+		const event = { ...chargeSucceeded, type: "charge.succeeded" as const };
+		expect(getWebhookEventKey(event)).toBe("charge.succeeded:tr_1");
+	});
+});
@@ -0,0 +1,172 @@
+import {
+	type UnknownWebhookEvent,
+	type WebhookEvent,
+	type WebhookEventType,
+	isKnownWebhookEventType,
+	unknownWebhookEventSchema,
+	webhookEventSchema,
+} from "../utils/validator";
+
+type EventOfType<T extends WebhookEventType> = Extract<WebhookEvent, { type: T }>;
+type TransactionEvent = Exclude<WebhookEvent, { type: "verification" }>;
+
+/**
+ * Handlers per event type; events without a handler are acknowledged and ignored
+ */
+export type WebhookHandlers = {
+	[T in WebhookEventType]?: (event: EventOfType<T>) => void | Promise<void>;
+};
+
+/**
+ * Incoming request for frameworks without a Fetch API Request (Express, Fastify…)
+ */
+export interface WebhookRequest {
+	headers: Headers | Record<string, string | string[] | undefined>;
+	/** Raw body string or already parsed JSON */
+	body: unknown;
+}
+
+export interface WebhookOptions {
+	/** Basic-auth user and password configured for the webhook in the OpenPay dashboard */
+	credentials?: { username: string; password: string };
+	/** Skips events that were already processed; OpenPay retries until it gets a 2xx */
+	idempotency?: {
+		isProcessed: (key: string, event: TransactionEvent) => boolean | Promise<boolean>;
+		markProcessed: (key: string, event: TransactionEvent) => void | Promise<void>;
+	};
+	/**
+	 * Receives event types the handlers cannot name, e.g. chargeback.created or fee.succeeded;
+	 * without it they are acknowledged and ignored
+	 */
+	onUnknownEvent?: (event: UnknownWebhookEvent) => void | Promise<void>;
+}
+
+/**
+ * What to answer OpenPay with
+ */
+export interface WebhookResult {
+	status: 200 | 400 | 401 | 500;
+	headers?: Record<string, string>;
+	body: string;
+	event?: WebhookEvent;
+	/** Set instead of `event` for an event type webhookEventSchema does not model */
+	unknownEvent?: UnknownWebhookEvent;
+	duplicate?: boolean;
+}
+
+const getHeader = (headers: WebhookRequest["headers"], name: string): string | undefined => {
+	if (typeof Headers !== "undefined" && headers instanceof Headers) {
+		return headers.get(name) ?? undefined;
+	}
+	const record = headers as Record<string, string | string[] | undefined>;
+	const key = Object.keys(record).find((header) => header.toLowerCase() === name);
+	const value = key ? record[key] : undefined;
+	return Array.isArray(value) ? value[0] : value;
+};
+
+const readBody = async (request: Request | WebhookRequest): Promise<unknown> => {
+	const body =
+		typeof Request !== "undefined" && request instanceof Request
+			? await request.text()
+			: (request as WebhookRequest).body;
+	return typeof body === "string" ? JSON.parse(body) : body;
+};
+
+/**
+ * Compare without short-circuiting on the first differing character
+ */
+const safeEqual = (a: string, b: string): boolean => {
+	let diff = a.length ^ b.length;
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+	}
+	return diff === 0;
+};
+
+const isAuthorized = (
+	authorization: string | undefined,
+	credentials: NonNullable<WebhookOptions["credentials"]>,
+): boolean => {
+	const [scheme, encoded] = authorization?.split(" ") ?? [];
+	if (scheme?.toLowerCase() !== "basic" || !encoded) return false;
+
+	let decoded: string;
+	try {
+		decoded = atob(encoded);
+	} catch {
+		return false;
+	}
+	return safeEqual(decoded, `${credentials.username}:${credentials.password}`);
+};
+
+/**
+ * Key identifying a delivery; OpenPay resends the same type and transaction on retries
+ */
+export const getWebhookEventKey = (event: TransactionEvent): string =>
+	`${event.type}:${event.transaction.id}`;
+
+/**
+ * Verify, parse and dispatch an OpenPay webhook delivery
+ */
+export const handleWebhook = async (
+	request: Request | WebhookRequest,
+	handlers: WebhookHandlers,
+	options: WebhookOptions = {},
+): Promise<WebhookResult> => {
+	const headers = request.headers as WebhookRequest["headers"];
+	if (
+		options.credentials &&
+		!isAuthorized(getHeader(headers, "authorization"), options.credentials)
+	) {
+		return {
+			status: 401,
+			headers: { "WWW-Authenticate": 'Basic realm="openpay-webhook"' },
+			body: "Unauthorized",
+		};
+	}
+
+	let payload: unknown;
+	try {
+		payload = await readBody(request);
+	} catch {
+		return { status: 400, body: "Invalid JSON" };
+	}
+
+	// OpenPay sends more event types than it documents; answering 400 would make it redeliver them
+	const unknown = unknownWebhookEventSchema.safeParse(payload);
+	if (unknown.success && !isKnownWebhookEventType(unknown.data.type)) {
+		try {
+			await options.onUnknownEvent?.(unknown.data);
+			return { status: 200, body: "OK", unknownEvent: unknown.data };
+		} catch {
+			return { status: 500, body: "Webhook handler failed", unknownEvent: unknown.data };
+		}
+	}
+
+	const parsed = webhookEventSchema.safeParse(payload);
+	if (!parsed.success) {
+		return { status: 400, body: "Invalid webhook payload" };
+	}
+	const event = parsed.data;
+
+	try {
+		if (event.type === "verification") {
+			// The dashboard asks for this code to confirm the endpoint
+			await handlers.verification?.(event);
+			return { status: 200, body: "OK", event };
+		}
+
+		const key = getWebhookEventKey(event);
+		if (await options.idempotency?.isProcessed(key, event)) {
+			return { status: 200, body: "OK", event, duplicate: true };
+		}
+
+		const handler = handlers[event.type] as ((event: WebhookEvent) => unknown) | undefined;
+		await handler?.(event);
+		await options.idempotency?.markProcessed(key, event);
+		return { status: 200, body: "OK", event };
+	} catch {
+		// A non-2xx answer makes OpenPay retry the delivery
+		return { status: 500, body: "Webhook handler failed", event };
+	}
+};
@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OpenPayClient } from "./openpay-client";
+import { createEmitter, redactCard } from "./telemetry";
+import { TEST_CARDS, createFakeOpenPay, createFakeScriptLoader } from "./testing";
+import type { Card, OpenPayConfig, OpenPayEvent } from "./types/openpay";
+
+const PAN = TEST_CARDS.visa;
+const HOLDER = "Juan Perez";
+const REDACTED = { bin: "411111", last4: "1111", brand: "visa" };
+
+const card: Card = {
+	card_number: PAN,
+	holder_name: HOLDER,
+	expiration_month: "12",
+	expiration_year: String((new Date().getFullYear() + 1) % 100).padStart(2, "0"),
+	cvv2: "123",
+};
+
+/**
+ * Every event a listener receives, serialized, so a leak anywhere in it is caught; field names
+ * such as "card_number" may appear as values, never as keys
+ */
+const expectNoCardData = (events: OpenPayEvent[]) => {
+	const serialized = JSON.stringify(events);
+	expect(serialized).not.toContain(PAN);
+	expect(serialized).not.toContain(HOLDER);
+	expect(serialized).not.toMatch(/"(cvv2?|cvc|card_number|holder_name)":/);
+};
+
+const createClient = (config: Partial<OpenPayConfig>) =>
+	new OpenPayClient({
+		merchantId: "m_test",
+		publicKey: "pk_test",
+		isSandbox: true,
+		loadScript: createFakeScriptLoader(createFakeOpenPay()),
+		...config,
+	});
+
+afterEach(() => {
+	Reflect.deleteProperty(window, "OpenPay");
+});
+
+describe("redactCard", () => {
+	it("keeps only the BIN, last four digits and brand", () => {
+		expect(redactCard("4111 1111 1111 1111")).toEqual(REDACTED);
+		expect(redactCard("41111")).toEqual({ bin: undefined, last4: undefined, brand: "visa" });
+	});
+});
+
+describe("createEmitter", () => {
+	it("strips card fields an event carries", () => {
+		const onEvent = vi.fn();
+		const emit = createEmitter({ onEvent });
+
+		emit({
+			type: "token_requested",
+			card: { ...redactCard(PAN), card_number: PAN, cvv2: "123", holder_name: HOLDER },
+		} as Parameters<typeof emit>[0]);
+
+		const [event] = onEvent.mock.calls[0] as [OpenPayEvent];
+		expect(event).toMatchObject({ type: "token_requested", card: REDACTED });
+		expectNoCardData([event]);
+	});
+
+	it("redacts what middleware adds back", () => {
+		const events: OpenPayEvent[] = [];
+		const emit = createEmitter({
+			middleware: [
+				(event, next) =>
+					next({
+						...event,
+						card_number: PAN,
+						cvv: "123",
+						context: { holderName: HOLDER, note: `paid with ${PAN}` },
+					} as OpenPayEvent),
+			],
+			onEvent: (event) => events.push(event),
+		});
+
+		emit({ type: "token_requested", card: redactCard(PAN) });
+
+		expect(events[0]).toMatchObject({ card: REDACTED, context: { note: "paid with [redacted]" } });
+		expectNoCardData(events);
+	});
+
+	it("keeps a throwing middleware or listener from reaching the caller", () => {
+		const throwing = createEmitter({
+			middleware: [
+				() => {
+					throw new Error("middleware bug");
+				},
+			],
+		});
+		expect(() => throwing({ type: "token_requested", card: redactCard(PAN) })).not.toThrow();
+	});
+});
+
+describe("OpenPayClient telemetry", () => {
+	it("reports a tokenization with the card reduced to BIN, last four and brand", async () => {
+		const events: OpenPayEvent[] = [];
+		const client = createClient({ onEvent: (event) => events.push(event) });
+
+		await client.createToken(card);
+		client.card.fields.validateField("card_number", PAN);
+
+		// The fake installs both scripts' globals at once, so script_loaded is not counted here
+		expect(events.map((event) => event.type).filter((type) => type !== "script_loaded")).toEqual([
+			"token_requested",
+			"token_succeeded",
+			"field_validated",
+		]);
+		expect(events.find((event) => event.type === "token_requested")).toMatchObject({
+			card: REDACTED,
+		});
+		expectNoCardData(events);
+	});
+
+	it("tokenizes even when the listener and middleware throw", async () => {
+		const client = createClient({
+			middleware: [
+				(event, next) => {
+					if (event.type === "token_requested") throw new Error("middleware bug");
+					next(event);
+				},
+			],
+			onEvent: () => {
+				throw new Error("analytics down");
+			},
+		});
+
+		await expect(client.createToken(card)).resolves.toMatchObject({
+			data: { id: expect.stringMatching(/^tok_fake_/) },
+		});
+	});
+});
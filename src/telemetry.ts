@@ -0,0 +1,113 @@
+import type { OpenPayRequestError } from "./errors";
+import type { OpenPayConfig, OpenPayEvent, RedactedCard, RedactedError } from "./types/openpay";
+import { detectCardType } from "./utils/card-brands";
+import { digitsOnly } from "./utils/formatter";
+
+/** Keys whose values never leave the client, at any depth */
+const SENSITIVE_KEYS = new Set([
+	"card_number",
+	"cardNumber",
+	"number",
+	"pan",
+	"cvv",
+	"cvv2",
+	"cvc",
+	"holder_name",
+	"holderName",
+]);
+
+/** 12 to 19 digits, optionally grouped by spaces or dashes: anything shaped like a PAN */
+const PAN_PATTERN = /\b\d(?:[ -]?\d){11,18}\b/g;
+
+/**
+ * BIN, last four digits and brand of a card number; nothing else is kept
+ */
+export const redactCard = (cardNumber: string | undefined): RedactedCard => {
+	const digits = digitsOnly(cardNumber ?? "");
+	return {
+		// Short inputs would expose most of the number through BIN and last4 together
+		bin: digits.length >= 12 ? digits.slice(0, 6) : undefined,
+		last4: digits.length >= 12 ? digits.slice(-4) : undefined,
+		brand: detectCardType(digits),
+	};
+};
+
+/**
+ * Error fields safe to report
+ */
+export const redactError = (error: OpenPayRequestError): RedactedError => ({
+	kind: error.kind,
+	code: error.code,
+	httpStatus: error.httpStatus,
+	requestId: error.requestId,
+	field: error.field,
+});
+
+const redactValue = (value: unknown): unknown => {
+	if (typeof value === "string") {
+		return value.replace(PAN_PATTERN, "[redacted]");
+	}
+	if (Array.isArray(value)) {
+		return value.map(redactValue);
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key]) => !SENSITIVE_KEYS.has(key))
+				.map(([key, entry]) => [key, redactValue(entry)]),
+		);
+	}
+	return value;
+};
+
+/**
+ * Last line of defense before events leave the client: drops card fields at any depth and masks
+ * PAN-shaped digit runs in strings
+ */
+export const redactEvent = (event: OpenPayEvent): OpenPayEvent =>
+	redactValue(event) as OpenPayEvent;
+
+type EventInput = OpenPayEvent extends infer E
+	? E extends OpenPayEvent
+		? Omit<E, "timestamp">
+		: never
+	: never;
+
+/**
+ * Build the emit function of a client from its onEvent and middleware options.
+ * Telemetry never breaks a payment: listener and middleware errors are swallowed.
+ * @internal
+ */
+export const createEmitter = ({
+	onEvent,
+	middleware = [],
+}: Pick<OpenPayConfig, "onEvent" | "middleware">) => {
+	if (!onEvent && middleware.length === 0) {
+		return (_event: EventInput) => {};
+	}
+
+	const dispatch = (index: number, event: OpenPayEvent): void => {
+		const handler = middleware[index];
+		if (!handler) {
+			onEvent?.(event);
+			return;
+		}
+		// Whatever middleware passes on is redacted again
+		handler(event, (next) => dispatch(index + 1, redactEvent(next)));
+	};
+
+	return (event: EventInput) => {
+		try {
+			dispatch(0, redactEvent({ ...event, timestamp: Date.now() } as OpenPayEvent));
+		} catch {
+			// Ignored on purpose
+		}
+	};
+};
+
+/**
+ * Clock for measuring durations in milliseconds
+ * @internal
+ */
+export const now = (): number =>
+	typeof performance !== "undefined" ? performance.now() : Date.now();
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { CardDeclinedError, InsufficientFundsError, NetworkError, ScriptLoadError } from "@/errors";
+import { OpenPayClient } from "@/openpay-client";
+import type { Card, OpenPayConfig } from "@/types/openpay";
+import { afterEach, describe, expect, it } from "vitest";
+import { type FakeOpenPay, TEST_CARDS, createFakeOpenPay, createFakeScriptLoader } from "./index";
+
+const nextYear = String((new Date().getFullYear() + 1) % 100).padStart(2, "0");
+
+const card = (cardNumber: string = TEST_CARDS.visa): Card => ({
+	card_number: cardNumber,
+	holder_name: "Juan Perez",
+	expiration_month: "12",
+	expiration_year: nextYear,
+	cvv2: cardNumber === TEST_CARDS.american_express ? "1234" : "123",
+});
+
+const createClient = (
+	fake: FakeOpenPay = createFakeOpenPay(),
+	config: Partial<OpenPayConfig> = {},
+	loaderOptions?: Parameters<typeof createFakeScriptLoader>[1],
+) =>
+	new OpenPayClient({
+		merchantId: "m_test",
+		publicKey: "pk_test",
+		isSandbox: true,
+		loadScript: createFakeScriptLoader(fake, loaderOptions),
+		tokenRetry: { retryDelay: 0 },
+		...config,
+	});
+
+afterEach(() => {
+	// The client reuses an OpenPay global left by a previous test
+	Reflect.deleteProperty(window, "OpenPay");
+	document.body.innerHTML = "";
+});
+
+describe("createFakeOpenPay with OpenPayClient", () => {
+	it("tokenizes an approved test card without loading real scripts", async () => {
+		const fake = createFakeOpenPay();
+		const client = createClient(fake);
+
+		const token = await client.createToken(card());
+
+		expect(token.data.id).toMatch(/^tok_fake_/);
+		expect(token.data.card.brand).toBe("visa");
+		expect(fake.tokenRequests).toHaveLength(1);
+		expect(fake.getId()).toBe("m_test");
+		expect(client.getDeviceSessionId()).toMatch(/^fake-device-session-id-/);
+	});
+
+	it.each([
+		[TEST_CARDS.declined, CardDeclinedError, 3001],
+		[TEST_CARDS.insufficientFunds, InsufficientFundsError, 3003],
+	])("rejects %s with the error its code maps to", async (number, ErrorClass, code) => {
+		const client = createClient();
+
+		const error = await client.createToken(card(number)).catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(ErrorClass);
+		expect(error).toMatchObject({ code });
+	});
+
+	it("retries a network failure and does not retry a decline", async () => {
+		const fake = createFakeOpenPay();
+		const client = createClient(fake);
+
+		fake.failNext("network");
+		await expect(client.createToken(card())).resolves.toBeDefined();
+		expect(fake.tokenRequests).toHaveLength(2);
+
+		fake.reset();
+		fake.failNext(3001);
+		await expect(client.createToken(card())).rejects.toBeInstanceOf(CardDeclinedError);
+		expect(fake.tokenRequests).toHaveLength(1);
+	});
+
+	it("gives up on network failures once the retries are spent", async () => {
+		const fake = createFakeOpenPay();
+		const client = createClient(fake, { tokenRetry: { retries: 0 } });
+
+		fake.failNext("network");
+		await expect(client.createToken(card())).rejects.toBeInstanceOf(NetworkError);
+	});
+
+	it("shares one request between concurrent calls for the same card", async () => {
+		const fake = createFakeOpenPay({ delay: 10 });
+		const client = createClient(fake);
+
+		const [first, second] = await Promise.all([
+			client.createToken(card()),
+			client.createToken(card()),
+		]);
+
+		expect(first).toBe(second);
+		expect(fake.tokenRequests).toHaveLength(1);
+	});
+
+	it("rejects with the abort reason when aborted while the scripts load", async () => {
+		const client = createClient(createFakeOpenPay(), {}, { delay: 20 });
+		const controller = new AbortController();
+
+		const pending = client.createToken(card(), { signal: controller.signal });
+		controller.abort();
+
+		await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+		// Let loading finish so its OpenPay global does not leak into the next test
+		await client.ready();
+	});
+
+	it("tokenizes the data-openpay-card inputs of a form", async () => {
+		const fake = createFakeOpenPay();
+		const client = createClient(fake);
+		const values = card();
+		document.body.innerHTML = `<form id="payment">${Object.entries(values)
+			.map(([field, value]) => `<input data-openpay-card="${field}" value="${value}" />`)
+			.join("")}</form>`;
+
+		await client.createTokenFromForm("payment");
+
+		expect(fake.tokenRequests[0]).toMatchObject({ card_number: values.card_number, cvv2: "123" });
+	});
+
+	it("reports a failed script load as a ScriptLoadError", async () => {
+		const client = createClient(createFakeOpenPay(), {}, { fail: true });
+
+		await expect(client.ready()).rejects.toBeInstanceOf(ScriptLoadError);
+		expect(client.getState().status).toBe("error");
+	});
+});
@@ -0,0 +1,324 @@
+import type {
+	Card,
+	CardFieldStatus,
+	CardValidationResult,
+	ErrorCallback,
+	OpenPayError,
+	OpenPayInstance,
+	ScriptLoader,
+	SuccessCallback,
+	Token,
+} from "../types/openpay";
+import { localCardEngine } from "../utils/card-engine";
+import { digitsOnly, guessCardType } from "../utils/formatter";
+
+/**
+ * Sandbox card numbers and the OpenPay error code they trigger
+ */
+export const TEST_CARDS = {
+	/** Approved */
+	visa: "4111111111111111",
+	mastercard: "5555555555554444",
+	american_express: "345678000000007",
+	/** 3001 card declined */
+	declined: "4222222222222220",
+	/** 3002 card expired */
+	expired: "4000000000000069",
+	/** 3003 insufficient funds */
+	insufficientFunds: "4444444444444448",
+	/** 3004 card reported stolen */
+	stolen: "4000000000000119",
+	/** 3005 fraud risk */
+	fraud: "4000000000000044",
+} as const;
+
+const TEST_CARD_ERRORS: Record<string, number> = {
+	[TEST_CARDS.declined]: 3001,
+	[TEST_CARDS.expired]: 3002,
+	[TEST_CARDS.insufficientFunds]: 3003,
+	[TEST_CARDS.stolen]: 3004,
+	[TEST_CARDS.fraud]: 3005,
+};
+
+const ERROR_DESCRIPTIONS: Record<number, { category: string; description: string; http: number }> =
+	{
+		1000: { category: "internal", description: "Internal server error", http: 500 },
+		1003: { category: "request", description: "The request contains invalid data", http: 422 },
+		2004: { category: "request", description: "The card check digit is invalid", http: 422 },
+		2005: { category: "request", description: "The card expiration date has passed", http: 400 },
+		2009: { category: "request", description: "The security code is invalid", http: 400 },
+		3001: { category: "gateway", description: "The card was declined", http: 402 },
+		3002: { category: "gateway", description: "The card has expired", http: 402 },
+		3003: { category: "gateway", description: "The card has insufficient funds", http: 402 },
+		3004: { category: "gateway", description: "The card was reported as stolen", http: 402 },
+		3005: { category: "gateway", description: "Fraud risk detected", http: 402 },
+	};
+
+/**
+ * Build an error shaped like the ones OpenPay.js passes to error callbacks
+ */
+export const createOpenPayError = (errorCode: number, description?: string): OpenPayError => {
+	const known = ERROR_DESCRIPTIONS[errorCode];
+	const httpCode = known?.http ?? 400;
+	return {
+		message: description ?? known?.description ?? `OpenPay error ${errorCode}`,
+		status: httpCode,
+		data: {
+			category: known?.category ?? "request",
+			description: description ?? known?.description ?? `OpenPay error ${errorCode}`,
+			error_code: errorCode,
+			http_code: httpCode,
+			request_id: `req_fake_${errorCode}`,
+		},
+	};
+};
+
+/**
+ * Build an error shaped like the one OpenPay.js reports when the request could not be sent
+ */
+export const createNetworkError = (): OpenPayError => ({
+	message: "Network error",
+	status: 0,
+	data: {
+		category: "internal",
+		description: "The request could not be sent",
+		error_code: 0,
+		http_code: 0,
+		request_id: "",
+	},
+});
+
+export interface FakeOpenPayOptions {
+	/** Milliseconds before callbacks are invoked, default 0 */
+	delay?: number;
+	/** Builds the success response for a tokenized card */
+	tokenResponse?: (card: Card) => Token;
+	/** Extra card numbers mapped to the OpenPay error code they trigger */
+	declines?: Record<string, number>;
+	/** Fixed device session id; by default every setup() call returns a new one */
+	deviceSessionId?: string;
+}
+
+/**
+ * In-memory OpenPay.js stand-in with controls for tests
+ */
+export interface FakeOpenPay extends OpenPayInstance {
+	/** Cards passed to token.create, in order */
+	readonly tokenRequests: Card[];
+	/** Fails the next token request with an OpenPay error code, or a network error */
+	failNext(error: number | "network"): void;
+	setDelay(delay: number): void;
+	reset(): void;
+}
+
+let tokenSequence = 0;
+let deviceSessionSequence = 0;
+
+const defaultTokenResponse = (card: Card): Token => {
+	const number = digitsOnly(card.card_number);
+	tokenSequence++;
+	return {
+		data: {
+			id: `tok_fake_${tokenSequence}`,
+			card: {
+				id: `card_fake_${tokenSequence}`,
+				type: "credit",
+				brand: guessCardType(number),
+				allows_charges: true,
+				allows_payouts: false,
+				creation_date: new Date().toISOString(),
+				bank_name: "FAKE BANK",
+				holder_name: card.holder_name,
+				expiration_year: card.expiration_year,
+				expiration_month: card.expiration_month,
+				address: card.address,
+			},
+		},
+	};
+};
+
+const readCardFromForm = (form: HTMLFormElement | string): Record<string, string> => {
+	const element = typeof form === "string" ? document.getElementById(form) : form;
+	const info: Record<string, string> = {};
+	if (!element) return info;
+
+	for (const input of element.querySelectorAll<HTMLInputElement>("[data-openpay-card]")) {
+		const field = input.getAttribute("data-openpay-card");
+		if (field) {
+			info[field] = input.value;
+		}
+	}
+	return info;
+};
+
+/**
+ * Create a fake OpenPay instance
+ */
+export const createFakeOpenPay = (options: FakeOpenPayOptions = {}): FakeOpenPay => {
+	let merchantId = "";
+	let apiKey = "";
+	let sandbox = true;
+	let delay = options.delay ?? 0;
+	let nextFailure: number | "network" | null = null;
+	const tokenRequests: Card[] = [];
+	const declines = { ...TEST_CARD_ERRORS, ...options.declines };
+	const buildToken = options.tokenResponse ?? defaultTokenResponse;
+
+	const respond = (callback: () => void) => {
+		setTimeout(callback, delay);
+	};
+
+	const { validateCardNumber, validateCVC, validateExpiry, cardType } = localCardEngine;
+
+	const fieldStatus = (isValid: boolean, value: string): CardFieldStatus => ({
+		isValid,
+		message: "",
+		isDirty: true,
+		value,
+	});
+
+	const createToken = (
+		card: Card,
+		success: SuccessCallback<Token>,
+		failure: ErrorCallback,
+	): void => {
+		tokenRequests.push(card);
+		const failureCode = nextFailure ?? declines[digitsOnly(card.card_number)];
+		nextFailure = null;
+
+		respond(() => {
+			if (failureCode === "network") {
+				failure(createNetworkError());
+			} else if (failureCode !== undefined) {
+				failure(createOpenPayError(failureCode));
+			} else if (!validateCardNumber(card.card_number)) {
+				failure(createOpenPayError(2004));
+			} else if (!validateExpiry(card.expiration_month, card.expiration_year)) {
+				failure(createOpenPayError(2005));
+			} else if (!validateCVC(card.cvv2, card.card_number)) {
+				failure(createOpenPayError(2009));
+			} else {
+				success(buildToken(card));
+			}
+		});
+	};
+
+	return {
+		tokenRequests,
+		failNext: (error) => {
+			nextFailure = error;
+		},
+		setDelay: (value) => {
+			delay = value;
+		},
+		reset: () => {
+			tokenRequests.length = 0;
+			nextFailure = null;
+			delay = options.delay ?? 0;
+		},
+
+		setId: (id) => {
+			merchantId = id;
+		},
+		getId: () => merchantId,
+		setApiKey: (key) => {
+			apiKey = key;
+		},
+		getApiKey: () => apiKey,
+		setSandboxMode: (enabled) => {
+			sandbox = enabled;
+		},
+		getSandboxMode: () => sandbox,
+
+		card: {
+			validateCardNumber,
+			validateCVC,
+			validateExpiry,
+			cardType,
+			getType: cardType,
+			validateCard: (card: Card): CardValidationResult => {
+				const errors: CardValidationResult["errors"] = {};
+				if (!validateCardNumber(card.card_number)) errors.cardNumber = true;
+				if (!validateCVC(card.cvv2, card.card_number)) errors.cvv = true;
+				if (!validateExpiry(card.expiration_month, card.expiration_year)) errors.expiry = true;
+				return {
+					isValid: Object.keys(errors).length === 0,
+					errors,
+					cardType: cardType(card.card_number),
+				};
+			},
+			fields: {
+				validateField: (fieldName, value, related) => {
+					switch (fieldName) {
+						case "card_number":
+							return fieldStatus(validateCardNumber(value), value);
+						case "cvv2":
+							return fieldStatus(validateCVC(value, related), value);
+						case "expiration_month":
+							return fieldStatus(validateExpiry(value, related ?? ""), value);
+						case "expiration_year":
+							return fieldStatus(validateExpiry(related ?? "", value), value);
+						default:
+							return fieldStatus(value.trim().length > 0, value);
+					}
+				},
+				validateCardNumber: (value) => fieldStatus(validateCardNumber(value), value),
+				validateCVC: (value, cardNumber) => fieldStatus(validateCVC(value, cardNumber), value),
+				validateExpiry: (month, year) =>
+					fieldStatus(validateExpiry(month, year), `${month}/${year}`),
+				validateHolderName: (value) => fieldStatus(value.trim().length >= 3, value),
+			},
+			update: (data, success) => {
+				respond(() => success(data as Card));
+			},
+		},
+
+		token: {
+			create: createToken,
+			extractFormAndCreate: (form, success, failure) => {
+				createToken(readCardFromForm(form) as unknown as Card, success, failure);
+			},
+		},
+
+		deviceData: {
+			setup: (elementId, fieldName = "deviceIdHiddenFieldName") => {
+				deviceSessionSequence++;
+				const sessionId =
+					options.deviceSessionId ?? `fake-device-session-id-${deviceSessionSequence}`;
+				const form =
+					elementId && typeof document !== "undefined" ? document.getElementById(elementId) : null;
+				if (form && !form.querySelector(`input[name="${fieldName}"]`)) {
+					const input = document.createElement("input");
+					input.type = "hidden";
+					input.name = fieldName;
+					input.id = fieldName;
+					input.value = sessionId;
+					form.appendChild(input);
+				}
+				return sessionId;
+			},
+		},
+
+		extractFormInfo: (form) => readCardFromForm(form),
+	};
+};
+
+/**
+ * Script loader that installs a fake OpenPay on window instead of requesting the real scripts
+ */
+export const createFakeScriptLoader = (
+	fake: OpenPayInstance = createFakeOpenPay(),
+	options: { delay?: number; fail?: boolean } = {},
+): ScriptLoader => {
+	return (src) =>
+		new Promise((resolve, reject) => {
+			setTimeout(() => {
+				if (options.fail) {
+					reject(new Error(`Failed to load script: ${src}`));
+					return;
+				}
+				window.OpenPay = fake;
+				resolve();
+			}, options.delay ?? 0);
+		});
+};
@@ -0,0 +1,8 @@
+export {
+	TEST_CARDS,
+	createFakeOpenPay,
+	createFakeScriptLoader,
+	createNetworkError,
+	createOpenPayError,
+} from "./fake-openpay";
+export type { FakeOpenPay, FakeOpenPayOptions } from "./fake-openpay";
@@ -1,5 +1,117 @@
 import type { z } from "zod";
-import type { addressSchema, cardSchema, tokenSchema } from "../utils/validator";
+import type { OpenPayRequestError } from "../errors";
+import type { Locale, MessageOverrides } from "../i18n";
+import type { OpenPayClient } from "../openpay-client";
+import type {
+	DOCUMENT_TYPES,
+	addressSchema,
+	bankTransferPaymentMethodSchema,
+	cardSchema,
+	documentSchema,
+	paymentMethodDetailsSchema,
+	storePaymentMethodSchema,
+	tokenSchema,
+} from "../utils/validator";
+
+/**
+ * Countries with an OpenPay merchant environment
+ */
+export type CountryCode = "PE" | "MX" | "CO";
+
+/**
+ * Currencies charged in each supported country
+ */
+export type Currency = "PEN" | "MXN" | "COP" | "USD";
+
+/**
+ * Ways to pay: card token, cash at a store, or bank transfer (SPEI)
+ */
+export type PaymentMethod = "card" | "store" | "bank_account";
+
+/**
+ * Country specific endpoints and rules
+ */
+export interface CountryConfig {
+	code: CountryCode;
+	currency: Currency;
+	/** openpay.v1.min.js */
+	scriptUrl: string;
+	/** openpay-data.v1.min.js */
+	dataScriptUrl: string;
+	/** REST API base URL, without the merchant id */
+	apiUrl: string;
+	sandboxApiUrl: string;
+	supportedBrands: CardType[];
+	paymentMethods: PaymentMethod[];
+	/** Identity documents accepted from payers */
+	documentTypes: DocumentType[];
+	/** Cash payment network behind store charges */
+	storeProvider?: string;
+	/** Card installment plans, when the country offers them */
+	installments?: InstallmentRules;
+	address: AddressRules;
+}
+
+/**
+ * Billing address requirements of a country
+ */
+export interface AddressRules {
+	requireState: boolean;
+	requirePostalCode: boolean;
+	postalCodePattern?: RegExp;
+	/** Digits of a postal code, used to limit input */
+	postalCodeLength?: number;
+	/** What the country calls its first-level subdivisions */
+	stateLabel: "state" | "department";
+	/** Subdivisions accepted as `state`, by code or name */
+	states: AddressState[];
+}
+
+/**
+ * First-level subdivision of a country: state, department or region
+ */
+export interface AddressState {
+	/** ISO 3166-2 subdivision code, without the country prefix */
+	code: string;
+	name: string;
+}
+
+/**
+ * Which cards and amounts can be paid in installments
+ */
+export interface InstallmentRules {
+	brands: CardType[];
+	/** Offered numbers of payments, ascending */
+	payments: number[];
+	/** A plan is offered while each payment is at least this amount */
+	minPaymentAmount: number;
+	/** Meses sin intereses; otherwise the issuer adds interest to each cuota */
+	interestFree: boolean;
+	/** BIN prefixes of participating issuers; any card of an eligible brand when omitted */
+	bins?: string[];
+}
+
+/**
+ * Installment option for a card and amount
+ */
+export interface InstallmentPlan {
+	payments: number;
+	/** Amount of each payment before any issuer interest */
+	paymentAmount: number;
+	total: number;
+	interestFree: boolean;
+}
+
+/**
+ * What the browser hands to the backend to create a card charge
+ */
+export interface ChargePayload {
+	source_id: string;
+	device_session_id: string;
+	payment_plan?: { payments: number };
+	/** Payer identity document, for your backend to add to the charge */
+	document?: CustomerDocument;
+}
 
 /**
  * OpenPay Configuration
@@ -8,10 +120,195 @@ export interface OpenPayConfig {
 	merchantId: string;
 	publicKey: string;
 	isSandbox: boolean;
+	/** Merchant environment, defaults to "PE" */
+	country?: CountryCode;
+	/** Language of validation and error messages, defaults to "en" */
+	locale?: Locale;
+	/** Per-locale message overrides and additions */
+	messages?: MessageOverrides;
+	/** Form that receives the device session hidden input, defaults to "openpay-payment-form" */
 	formId?: string;
+	/** Name of the device session hidden input, defaults to "deviceIdHiddenFieldName" */
 	deviceIdFieldName?: string;
+	/** When to generate a new device session id */
+	deviceSession?: DeviceSessionOptions;
+	/** Milliseconds to wait for each OpenPay script load attempt before failing */
+	scriptTimeout?: number;
+	/** Script hosts, CSP nonce, integrity hashes and retries of the default loader */
+	scripts?: ScriptOptions;
+	/** Retries of tokenizations that failed for a transient reason */
+	tokenRetry?: TokenRetryOptions;
+	/** Replaces script injection, e.g. to install a fake OpenPay in tests */
+	loadScript?: ScriptLoader;
+	/** Backend access to customers' stored cards, used by client.savedCards and useSavedCards */
+	savedCards?: SavedCardsAdapter;
+	/**
+	 * "local" (default) validates cards without the OpenPay scripts.
+	 * "remote" delegates to OpenPay.js once loaded and falls back to local until then.
+	 */
+	validationMode?: "local" | "remote";
+	/** Receives telemetry events after redaction and middleware */
+	onEvent?: OpenPayEventListener;
+	/** Run in order on every redacted event; call next to pass it on, or skip it to drop it */
+	middleware?: OpenPayMiddleware[];
+}
+
+/**
+ * Card data allowed in telemetry: BIN, last four digits and brand only
+ */
+export interface RedactedCard {
+	bin?: string;
+	last4?: string;
+	brand: CardType;
+}
+
+/**
+ * Request error details allowed in telemetry
+ */
+export interface RedactedError {
+	kind: string;
+	code: number;
+	httpStatus: number;
+	requestId?: string;
+	field?: string;
+}
+
+interface OpenPayEventBase {
+	/** Milliseconds since the epoch */
+	timestamp: number;
+}
+
+/**
+ * Telemetry events emitted by OpenPayClient
+ */
+export type OpenPayEvent =
+	| (OpenPayEventBase & { type: "script_loaded"; src: string; duration: number })
+	| (OpenPayEventBase & { type: "token_requested"; card: RedactedCard })
+	| (OpenPayEventBase & {
+			type: "token_succeeded";
+			card: RedactedCard;
+			tokenId: string;
+			duration: number;
+	  })
+	| (OpenPayEventBase & {
+			type: "token_failed";
+			card: RedactedCard;
+			error: RedactedError;
+			duration: number;
+	  })
+	| (OpenPayEventBase & {
+			type: "field_validated";
+			field: string;
+			isValid: boolean;
+			cardType?: CardType;
+	  });
+
+export type OpenPayEventType = OpenPayEvent["type"];
+
+export type OpenPayEventListener = (event: OpenPayEvent) => void;
+
+/**
+ * Telemetry middleware, e.g. to sample, enrich or forward events
+ */
+export type OpenPayMiddleware = (event: OpenPayEvent, next: (event: OpenPayEvent) => void) => void;
+
+/**
+ * Retries of transient tokenization failures such as network errors; declines are never retried
+ */
+export interface TokenRetryOptions {
+	/** Defaults to 2; 0 disables retries */
+	retries?: number;
+	/** Milliseconds before the first retry, doubled for each further one; defaults to 500 */
+	retryDelay?: number;
+}
+
+/**
+ * Per-call options of createToken and createTokenFromForm
+ */
+export interface CreateTokenOptions {
+	/** Stops waiting for the token; the request may still reach OpenPay */
+	signal?: AbortSignal;
+}
+
+/**
+ * Device session rotation; by default one id is kept for the client's lifetime
+ */
+export interface DeviceSessionOptions {
+	/** New id for every tokenization after the first one */
+	rotatePerAttempt?: boolean;
+	/** Milliseconds after which a new id is generated */
+	ttl?: number;
+}
+
+/**
+ * Device Session Listener
+ */
+export type DeviceSessionListener = (deviceSessionId: string) => void;
+
+/**
+ * Card checks shared by the local engine and OpenPay.js
+ */
+export interface CardEngine {
+	validateCardNumber: (cardNumber: string) => boolean;
+	validateCVC: (cvc: string, cardNumber?: string) => boolean;
+	validateExpiry: (month: string, year: string) => boolean;
+	cardType: (cardNumber: string) => CardType;
+}
+
+/**
+ * Loads one OpenPay script; resolves once it has executed.
+ * `isLoaded` tells from the globals the script defines whether it has already run.
+ */
+export interface ScriptLoader {
+	(src: string, isLoaded?: () => boolean): Promise<void>;
+	/** Removes the scripts this loader injected */
+	cleanup?: () => void;
+}
+
+/**
+ * Options of the default script loader
+ */
+export interface ScriptLoaderOptions {
+	/** CSP nonce set on the injected scripts */
+	nonce?: string;
+	/** Subresource integrity hashes keyed by script URL */
+	integrity?: Record<string, string>;
+	/** Milliseconds per attempt, default 15000 */
+	timeout?: number;
+	/** Additional attempts after a failed load, default 2 */
+	retries?: number;
+	/** Milliseconds before the first retry, doubled for each further one; default 500 */
+	retryDelay?: number;
+}
+
+/**
+ * Script configuration; URLs default to the country's OpenPay hosts
+ */
+export interface ScriptOptions extends Omit<ScriptLoaderOptions, "timeout"> {
+	/** Self-hosted or proxied openpay.v1.min.js */
+	scriptUrl?: string;
+	/** Self-hosted or proxied openpay-data.v1.min.js */
+	dataScriptUrl?: string;
 }
 
+/**
+ * Client Initialization Status
+ */
+export type OpenPayStatus = "idle" | "loading" | "ready" | "error";
+
+/**
+ * Client Initialization State
+ */
+export interface OpenPayState {
+	status: OpenPayStatus;
+	error: Error | null;
+}
+
+/**
+ * Initialization State Listener
+ */
+export type OpenPayStateListener = (state: OpenPayState) => void;
+
 /**
  * Hook Options
  */
@@ -24,6 +321,16 @@ export interface UseOpenPayOptions extends OpenPayConfig {
  */
 export type Address = z.infer<typeof addressSchema>;
 
+/**
+ * Payer identity document from Zod schema
+ */
+export type CustomerDocument = z.infer<typeof documentSchema>;
+
+/**
+ * Identity documents: DNI, RUC, carné de extranjería and passport in Peru; RFC and CURP in Mexico
+ */
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
 /**
  * Card type from Zod schema
  */
@@ -34,6 +341,31 @@ export type Card = z.infer<typeof cardSchema>;
  */
 export type Token = z.infer<typeof tokenSchema>;
 
+/**
+ * Store charge payment details from Zod schema
+ */
+export type StorePaymentMethod = z.infer<typeof storePaymentMethodSchema>;
+
+/**
+ * Bank transfer charge payment details from Zod schema
+ */
+export type BankTransferPaymentMethod = z.infer<typeof bankTransferPaymentMethodSchema>;
+
+/**
+ * Charge payment_method from Zod schema
+ */
+export type PaymentMethodDetails = z.infer<typeof paymentMethodDetailsSchema>;
+
+/**
+ * Charge fields shown in payment instructions; the server Charge type satisfies it
+ */
+export interface PaymentInstructionsCharge {
+	amount: number;
+	currency?: string;
+	due_date?: string | null;
+	payment_method?: PaymentMethodDetails | null;
+}
+
 /**
  * Card Field Status for real-time validation
  */
@@ -42,6 +374,7 @@ export interface CardFieldStatus {
 	message: string;
 	cardType?: CardType;
 	isDirty?: boolean;
+	isTouched?: boolean;
 	value?: string;
 }
 
@@ -74,6 +407,14 @@ export interface OpenPayError {
 	status: number;
 }
 
+/**
+ * Options of the client's card.fields.validateField
+ */
+export interface ValidateFieldOptions {
+	/** Report a field_validated event; default true, pass false when validating during render */
+	track?: boolean;
+}
+
 /**
  * Card Field Validation Interface
  */
@@ -107,7 +448,8 @@ export type ErrorCallback = (error: OpenPayError) => void;
  * Device Session Interface
  */
 export interface DeviceSession {
-	setup(elementId: string, deviceIdFieldName?: string): string;
+	/** Without an element id the session id is only returned, no input is injected */
+	setup(elementId?: string, deviceIdFieldName?: string): string;
 }
 
 /**
@@ -153,20 +495,24 @@ export interface OpenPayInstance {
 }
 
 /**
- * Hook Result Interface with Field Validation
+ * Result of useOpenPay
  */
 export interface UseOpenPayResult {
+	/** Last tokenization error */
+	error: OpenPayRequestError | null;
+	initError: Error | null;
+	status: OpenPayStatus;
+	/** The scripts have not finished loading yet */
 	loading: boolean;
-	error: OpenPayError | null;
 	isInitialized: boolean;
+	/** Whether a tokenization started through the hook is running */
+	submitting: boolean;
+	/** Resolves once the scripts are loaded; rejects with the initialization error */
+	ready: () => Promise<void>;
+	createToken: (cardData: Card, options?: CreateTokenOptions) => Promise<Token>;
+	/** Card validation of the client: number, CVC, expiry, brand and per-field status */
+	card: OpenPayClient["card"];
 	deviceSessionId: string;
-	createToken: (cardData: Card) => Promise<Token>;
-	validateCard: {
-		number: (cardNumber: string) => boolean;
-		cvv: (cvv: string, cardNumber?: string) => boolean;
-		expiry: (month: string, year: string) => boolean;
-		fields: CardFieldValidation;
-	};
 	resetError: () => void;
 }
 
@@ -181,9 +527,157 @@ export type CardType =
 	| "discover"
 	| "visa_electron"
 	| "maestro"
+	| "carnet"
 	| "unknown";
 
 /**
  * Field Status Record Type
  */
 export type FieldStatusRecord = Record<keyof Card, CardFieldStatus>;
+
+/**
+ * Field-mapped validation errors of a card form
+ */
+export type CardFormErrors = Partial<Record<keyof Card, string>>;
+
+/**
+ * Result of submitting a card form
+ */
+export type CardFormSubmitResult =
+	| { success: true; token: Token; payload: ChargePayload }
+	| { success: false; errors: CardFormErrors; error?: OpenPayRequestError };
+
+/**
+ * Where the 3-D Secure page is shown: an inline iframe, an iframe in an overlay, or the whole page
+ */
+export type ThreeDSecureMode = "iframe" | "modal" | "redirect";
+
+/**
+ * Charge fields read by the 3-D Secure flow; the server Charge type satisfies it
+ */
+export interface ThreeDSecureCharge {
+	id: string;
+	status: string;
+	error_message?: string | null;
+	error_code?: number | null;
+	payment_method?: { type: string; url?: string } | null;
+}
+
+/**
+ * Outcome of a 3-D Secure authentication
+ */
+export type ThreeDSecureResult =
+	| { status: "succeeded"; chargeId: string; charge: ThreeDSecureCharge }
+	| { status: "failed"; chargeId: string; error: OpenPayRequestError; charge?: ThreeDSecureCharge }
+	| { status: "cancelled"; chargeId: string };
+
+/**
+ * 3-D Secure flow progress
+ */
+export type ThreeDSecureStatus =
+	| "idle"
+	| "authenticating"
+	| "verifying"
+	| "succeeded"
+	| "failed"
+	| "cancelled";
+
+/**
+ * Charge created by your backend; a `redirect` payment_method means 3-D Secure is pending
+ */
+export type ChargeResult = ThreeDSecureCharge;
+
+/**
+ * Checkout steps, in order: idle → validating → tokenizing → charging → awaiting_authentication
+ * → succeeded or failed
+ */
+export type CheckoutStatus =
+	| "idle"
+	| "validating"
+	| "tokenizing"
+	| "charging"
+	| "awaiting_authentication"
+	| "succeeded"
+	| "failed";
+
+/**
+ * Checkout state with the data each step has produced
+ */
+export type CheckoutState =
+	| { status: "idle" }
+	| { status: "validating" }
+	| { status: "tokenizing" }
+	| { status: "charging"; token: Token }
+	| {
+			status: "awaiting_authentication";
+			token: Token;
+			charge: ChargeResult;
+			/** Bank page where the payer authenticates */
+			url: string;
+	  }
+	| {
+			status: "succeeded";
+			/** Missing when the page was reloaded by a full-page 3-D Secure redirect */
+			token?: Token;
+			charge: ChargeResult;
+	  }
+	| {
+			status: "failed";
+			/** Step that failed */
+			step: Exclude<CheckoutStatus, "idle" | "succeeded" | "failed">;
+			/** Null when validation failed; see errors */
+			error: OpenPayRequestError | null;
+			errors: CardFormErrors;
+			token?: Token;
+			charge?: ChargeResult;
+	  };
+
+/**
+ * Events that move the checkout between states; any other event is ignored in a state
+ */
+export type CheckoutEvent =
+	| { type: "submit" }
+	| { type: "validated" }
+	| { type: "invalid"; errors: CardFormErrors }
+	| { type: "tokenized"; token: Token }
+	| { type: "charged"; charge: ChargeResult }
+	| { type: "authenticated"; result: ThreeDSecureResult }
+	| { type: "error"; error: OpenPayRequestError }
+	| { type: "reset" };
+
+/**
+ * Stored customer card as listed by your backend; the number is masked
+ */
+export interface SavedCard {
+	id: string;
+	brand: string;
+	card_number: string;
+	holder_name: string;
+	expiration_month: string;
+	expiration_year: string;
+	type?: string;
+	bank_name?: string | null;
+	address?: Address | null;
+}
+
+/**
+ * Fields of a stored card that can be changed with the public key
+ */
+export type SavedCardUpdate = Partial<
+	Pick<Card, "holder_name" | "expiration_month" | "expiration_year" | "cvv2" | "address">
+>;
+
+/**
+ * Expiry of a stored card relative to today
+ */
+export type SavedCardExpiryStatus = "valid" | "expiring_soon" | "expired";
+
+/**
+ * Calls to your backend for operations that need the private key
+ */
+export interface SavedCardsAdapter {
+	list: (customerId: string) => Promise<SavedCard[]>;
+	delete: (customerId: string, cardId: string) => Promise<void>;
+	/** Defaults to OpenPay.js `card.update`, which only needs the public key */
+	update?: (customerId: string, cardId: string, data: SavedCardUpdate) => Promise<void>;
+}
@@ -0,0 +1,109 @@
+import type { AddressState } from "../types/openpay";
+
+/**
+ * Peruvian departments and the constitutional province of Callao (ISO 3166-2:PE)
+ */
+export const PE_STATES: AddressState[] = [
+	{ code: "AMA", name: "Amazonas" },
+	{ code: "ANC", name: "Áncash" },
+	{ code: "APU", name: "Apurímac" },
+	{ code: "ARE", name: "Arequipa" },
+	{ code: "AYA", name: "Ayacucho" },
+	{ code: "CAJ", name: "Cajamarca" },
+	{ code: "CAL", name: "Callao" },
+	{ code: "CUS", name: "Cusco" },
+	{ code: "HUV", name: "Huancavelica" },
+	{ code: "HUC", name: "Huánuco" },
+	{ code: "ICA", name: "Ica" },
+	{ code: "JUN", name: "Junín" },
+	{ code: "LAL", name: "La Libertad" },
+	{ code: "LAM", name: "Lambayeque" },
+	{ code: "LIM", name: "Lima" },
+	{ code: "LOR", name: "Loreto" },
+	{ code: "MDD", name: "Madre de Dios" },
+	{ code: "MOQ", name: "Moquegua" },
+	{ code: "PAS", name: "Pasco" },
+	{ code: "PIU", name: "Piura" },
+	{ code: "PUN", name: "Puno" },
+	{ code: "SAM", name: "San Martín" },
+	{ code: "TAC", name: "Tacna" },
+	{ code: "TUM", name: "Tumbes" },
+	{ code: "UCA", name: "Ucayali" },
+];
+
+/**
+ * Mexican states and Mexico City (ISO 3166-2:MX)
+ */
+export const MX_STATES: AddressState[] = [
+	{ code: "AGU", name: "Aguascalientes" },
+	{ code: "BCN", name: "Baja California" },
+	{ code: "BCS", name: "Baja California Sur" },
+	{ code: "CAM", name: "Campeche" },
+	{ code: "CHP", name: "Chiapas" },
+	{ code: "CHH", name: "Chihuahua" },
+	{ code: "CMX", name: "Ciudad de México" },
+	{ code: "COA", name: "Coahuila" },
+	{ code: "COL", name: "Colima" },
+	{ code: "DUR", name: "Durango" },
+	{ code: "MEX", name: "Estado de México" },
+	{ code: "GUA", name: "Guanajuato" },
+	{ code: "GRO", name: "Guerrero" },
+	{ code: "HID", name: "Hidalgo" },
+	{ code: "JAL", name: "Jalisco" },
+	{ code: "MIC", name: "Michoacán" },
+	{ code: "MOR", name: "Morelos" },
+	{ code: "NAY", name: "Nayarit" },
+	{ code: "NLE", name: "Nuevo León" },
+	{ code: "OAX", name: "Oaxaca" },
+	{ code: "PUE", name: "Puebla" },
+	{ code: "QUE", name: "Querétaro" },
+	{ code: "ROO", name: "Quintana Roo" },
+	{ code: "SLP", name: "San Luis Potosí" },
+	{ code: "SIN", name: "Sinaloa" },
+	{ code: "SON", name: "Sonora" },
+	{ code: "TAB", name: "Tabasco" },
+	{ code: "TAM", name: "Tamaulipas" },
+	{ code: "TLA", name: "Tlaxcala" },
+	{ code: "VER", name: "Veracruz" },
+	{ code: "YUC", name: "Yucatán" },
+	{ code: "ZAC", name: "Zacatecas" },
+];
+
+/**
+ * Colombian departments and the capital district (ISO 3166-2:CO)
+ */
+export const CO_STATES: AddressState[] = [
+	{ code: "AMA", name: "Amazonas" },
+	{ code: "ANT", name: "Antioquia" },
+	{ code: "ARA", name: "Arauca" },
+	{ code: "ATL", name: "Atlántico" },
+	{ code: "DC", name: "Bogotá D.C." },
+	{ code: "BOL", name: "Bolívar" },
+	{ code: "BOY", name: "Boyacá" },
+	{ code: "CAL", name: "Caldas" },
+	{ code: "CAQ", name: "Caquetá" },
+	{ code: "CAS", name: "Casanare" },
+	{ code: "CAU", name: "Cauca" },
+	{ code: "CES", name: "Cesar" },
+	{ code: "CHO", name: "Chocó" },
+	{ code: "COR", name: "Córdoba" },
+	{ code: "CUN", name: "Cundinamarca" },
+	{ code: "GUA", name: "Guainía" },
+	{ code: "GUV", name: "Guaviare" },
+	{ code: "HUI", name: "Huila" },
+	{ code: "LAG", name: "La Guajira" },
+	{ code: "MAG", name: "Magdalena" },
+	{ code: "MET", name: "Meta" },
+	{ code: "NAR", name: "Nariño" },
+	{ code: "NSA", name: "Norte de Santander" },
+	{ code: "PUT", name: "Putumayo" },
+	{ code: "QUI", name: "Quindío" },
+	{ code: "RIS", name: "Risaralda" },
+	{ code: "SAP", name: "San Andrés y Providencia" },
+	{ code: "SAN", name: "Santander" },
+	{ code: "SUC", name: "Sucre" },
+	{ code: "TOL", name: "Tolima" },
+	{ code: "VAC", name: "Valle del Cauca" },
+	{ code: "VAU", name: "Vaupés" },
+	{ code: "VID", name: "Vichada" },
+];
@@ -0,0 +1,34 @@
+import type { AddressState, CountryCode } from "../types/openpay";
+import { getCountryConfig } from "./countries";
+import { digitsOnly } from "./formatter";
+
+/** Case and accent insensitive form of a subdivision code or name */
+const normalizeStateKey = (value: string): string =>
+	value
+		.normalize("NFD")
+		.replace(/\p{Diacritic}/gu, "")
+		.trim()
+		.toLowerCase();
+
+/**
+ * Subdivision of a country matching a code or name, e.g. "NLE" or "nuevo leon" in MX
+ */
+export const findAddressState = (
+	value: string,
+	country?: CountryCode,
+): AddressState | undefined => {
+	const key = normalizeStateKey(value);
+	if (!key) return undefined;
+	return getCountryConfig(country).address.states.find(
+		(state) => normalizeStateKey(state.code) === key || normalizeStateKey(state.name) === key,
+	);
+};
+
+/**
+ * Postal code input kept to the digits and length used in the country
+ */
+export const formatPostalCode = (value: string, country?: CountryCode): string => {
+	const digits = digitsOnly(value);
+	const length = getCountryConfig(country).address.postalCodeLength;
+	return length ? digits.slice(0, length) : digits;
+};
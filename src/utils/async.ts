@@ -0,0 +1,4 @@
+/**
+ * Resolve after a delay in milliseconds
+ */
+export const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,192 @@
+import type { CardType } from "../types/openpay";
+
+/**
+ * Card brand rules keyed by BIN (issuer identification number) ranges
+ */
+export interface CardBrand {
+	type: Exclude<CardType, "unknown">;
+	displayName: string;
+	/** Inclusive BIN ranges; both bounds have the same number of digits */
+	ranges: [string, string][];
+	/** Allowed card number lengths, ascending */
+	lengths: number[];
+	cvvLength: number;
+	/** Positions after which a space is inserted for display */
+	gaps: number[];
+}
+
+export const CARD_BRANDS: CardBrand[] = [
+	{
+		type: "visa",
+		displayName: "Visa",
+		ranges: [["4", "4"]],
+		lengths: [13, 16, 19],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+	{
+		type: "visa_electron",
+		displayName: "Visa Electron",
+		ranges: [
+			["4026", "4026"],
+			["417500", "417500"],
+			["4508", "4508"],
+			["4844", "4844"],
+			["4913", "4913"],
+			["4917", "4917"],
+		],
+		lengths: [16],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+	{
+		type: "mastercard",
+		displayName: "Mastercard",
+		ranges: [
+			["51", "55"],
+			["2221", "2720"],
+		],
+		lengths: [16],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+	{
+		type: "american_express",
+		displayName: "American Express",
+		ranges: [
+			["34", "34"],
+			["37", "37"],
+		],
+		lengths: [15],
+		cvvLength: 4,
+		gaps: [4, 10],
+	},
+	{
+		type: "diners_club",
+		displayName: "Diners Club",
+		ranges: [
+			["300", "305"],
+			["309", "309"],
+			["36", "36"],
+			["38", "39"],
+		],
+		lengths: [14, 16, 17, 18, 19],
+		cvvLength: 3,
+		gaps: [4, 10],
+	},
+	{
+		type: "discover",
+		displayName: "Discover",
+		ranges: [
+			["6011", "6011"],
+			["622126", "622925"],
+			["644", "649"],
+			["65", "65"],
+		],
+		lengths: [16, 17, 18, 19],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+	{
+		type: "maestro",
+		displayName: "Maestro",
+		ranges: [
+			["5018", "5018"],
+			["5020", "5020"],
+			["5038", "5038"],
+			["5893", "5893"],
+			["6304", "6304"],
+			["6759", "6759"],
+			["6761", "6763"],
+		],
+		lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+	{
+		type: "carnet",
+		displayName: "Carnet",
+		ranges: [
+			["286900", "286900"],
+			["502275", "502275"],
+			["506199", "506499"],
+			["606333", "606333"],
+			["627535", "627535"],
+			["636318", "636318"],
+			["636379", "636379"],
+			["639388", "639388"],
+			["639484", "639484"],
+			["639559", "639559"],
+		],
+		lengths: [16],
+		cvvLength: 3,
+		gaps: [4, 8, 12],
+	},
+];
+
+/**
+ * Rules applied while no brand can be detected; input limits stay at their widest
+ */
+export const UNKNOWN_BRAND: Omit<CardBrand, "type" | "displayName" | "ranges"> = {
+	lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+	cvvLength: 4,
+	gaps: [4, 8, 12],
+};
+
+interface BrandMatch {
+	brand: CardBrand;
+	/** Digits of the matched range; longer ranges are more specific */
+	specificity: number;
+	/** The input covers the whole range prefix */
+	complete: boolean;
+}
+
+const matchRange = (digits: string, [start, end]: [string, string]) => {
+	const length = Math.min(digits.length, start.length);
+	const prefix = digits.slice(0, length);
+	return prefix >= start.slice(0, length) && prefix <= end.slice(0, length);
+};
+
+/**
+ * Detect the card brand from the first digits of a partial or complete card number.
+ * Returns undefined while the digits typed so far still fit more than one brand.
+ */
+export const detectCardBrand = (cardNumber: string): CardBrand | undefined => {
+	const digits = cardNumber.replace(/\D/g, "");
+	if (!digits) return undefined;
+
+	const matches: BrandMatch[] = [];
+	for (const brand of CARD_BRANDS) {
+		for (const range of brand.ranges) {
+			if (matchRange(digits, range)) {
+				matches.push({
+					brand,
+					specificity: range[0].length,
+					complete: digits.length >= range[0].length,
+				});
+			}
+		}
+	}
+
+	// The most specific fully typed range wins, e.g. visa_electron "4026" over visa "4"
+	const best = matches
+		.filter((match) => match.complete)
+		.sort((a, b) => b.specificity - a.specificity)[0];
+	if (best) return best.brand;
+
+	// Otherwise only commit once the remaining candidates agree on the brand
+	const candidates = new Set(matches.map((match) => match.brand));
+	return candidates.size === 1 ? matches[0]?.brand : undefined;
+};
+
+/**
+ * Canonical card type for a partial or complete card number
+ */
+export const detectCardType = (cardNumber: string): CardType =>
+	detectCardBrand(cardNumber)?.type ?? "unknown";
+
+/**
+ * Brand rules for a card type
+ */
+export const getCardBrand = (cardType: CardType): CardBrand | undefined =>
+	CARD_BRANDS.find((brand) => brand.type === cardType);
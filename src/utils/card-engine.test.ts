@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { localCardEngine, normalizeCardType } from "./card-engine";
+
+/**
+ * What OpenPay.js `card.*` returns for each input; the local engine has to agree with all of them
+ */
+const OPENPAY_JS = {
+	validateCardNumber: [
+		["4111111111111111", true],
+		["4111 1111 1111 1111", true],
+		["4111-1111-1111-1111", true],
+		["4111111111111112", false],
+		["4111111110", true],
+		["411111111", false],
+		["6011000000000000001", true],
+		["60110000000000000004", false],
+		["4111a11111111111", false],
+		["", false],
+	],
+	validateCVC: [
+		["123", undefined, true],
+		["1234", undefined, true],
+		[" 123 ", undefined, true],
+		["12", undefined, false],
+		["12a", undefined, false],
+		["12345", undefined, false],
+		["123", "4111111111111111", true],
+		["1234", "4111111111111111", false],
+		["1234", "378282246310005", true],
+		["123", "378282246310005", false],
+		["123", "9999999999999995", true],
+	],
+	// Relative to the fixed date set below: 15 June 2026
+	validateExpiry: [
+		["6", "26", true],
+		["06", "2026", true],
+		["5", "26", false],
+		["12", "25", false],
+		["1", "27", true],
+		[" 07 ", " 27 ", true],
+		["0", "27", false],
+		["13", "27", false],
+		["ab", "27", false],
+		["1", "227", false],
+		["1", "", false],
+	],
+	cardType: [
+		["4111111111111111", "Visa"],
+		["4917300800000000", "Visa Electron"],
+		["5555555555554444", "Mastercard"],
+		["2221000000000009", "Mastercard"],
+		["378282246310005", "American Express"],
+		["30569309025904", "Diners Club"],
+		["6011111111111117", "Discover"],
+		["5062541600005232", "Carnet"],
+		["9999999999999995", ""],
+	],
+} satisfies {
+	validateCardNumber: [string, boolean][];
+	validateCVC: [string, string | undefined, boolean][];
+	validateExpiry: [string, string, boolean][];
+	cardType: [string, string][];
+};
+
+describe("localCardEngine", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 5, 15));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it.each(OPENPAY_JS.validateCardNumber)("validateCardNumber(%j) is %s", (number, expected) => {
+		expect(localCardEngine.validateCardNumber(number)).toBe(expected);
+	});
+
+	it.each(OPENPAY_JS.validateCVC)("validateCVC(%j, %j) is %s", (cvc, cardNumber, expected) => {
+		expect(localCardEngine.validateCVC(cvc, cardNumber)).toBe(expected);
+	});
+
+	it.each(OPENPAY_JS.validateExpiry)("validateExpiry(%j, %j) is %s", (month, year, expected) => {
+		expect(localCardEngine.validateExpiry(month, year)).toBe(expected);
+	});
+
+	it.each(OPENPAY_JS.cardType)("cardType(%j) matches %j", (number, remoteType) => {
+		expect(localCardEngine.cardType(number)).toBe(normalizeCardType(remoteType));
+	});
+});
+
+describe("normalizeCardType", () => {
+	it.each([
+		["Visa", "visa"],
+		[" VISA ", "visa"],
+		["visa_electron", "visa_electron"],
+		["master card", "mastercard"],
+		["amex", "american_express"],
+		["Diners", "diners_club"],
+		["Carnet", "carnet"],
+		["jcb", "unknown"],
+		[undefined, "unknown"],
+		[null, "unknown"],
+	] as const)("maps %j to %s", (remoteType, expected) => {
+		expect(normalizeCardType(remoteType)).toBe(expected);
+	});
+});
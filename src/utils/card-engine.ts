@@ -0,0 +1,66 @@
+import type { CardEngine, CardType } from "../types/openpay";
+import { getCardBrand } from "./card-brands";
+import { digitsOnly, guessCardType } from "./formatter";
+import { validators } from "./validator";
+
+/**
+ * Names returned by OpenPay.js `card.cardType`, mapped to CardType
+ */
+const REMOTE_CARD_TYPES: Record<string, CardType> = {
+	visa: "visa",
+	"visa electron": "visa_electron",
+	visa_electron: "visa_electron",
+	mastercard: "mastercard",
+	"master card": "mastercard",
+	"american express": "american_express",
+	american_express: "american_express",
+	amex: "american_express",
+	"diners club": "diners_club",
+	diners_club: "diners_club",
+	diners: "diners_club",
+	discover: "discover",
+	maestro: "maestro",
+	carnet: "carnet",
+};
+
+/**
+ * Convert a card type name reported by OpenPay.js to the canonical CardType
+ */
+export const normalizeCardType = (remoteType: string | undefined | null): CardType =>
+	REMOTE_CARD_TYPES[(remoteType ?? "").trim().toLowerCase()] ?? "unknown";
+
+/**
+ * Card validation that mirrors OpenPay.js without needing its scripts.
+ * Works on the server and before the remote scripts have loaded.
+ */
+export const localCardEngine: CardEngine = {
+	validateCardNumber: (cardNumber) => {
+		// OpenPay.js ignores spaces and dashes, then requires 10-19 digits passing Luhn
+		const normalized = cardNumber.replace(/[\s-]/g, "");
+		return /^\d{10,19}$/.test(normalized) && validators.luhnCheck(normalized);
+	},
+
+	validateCVC: (cvc, cardNumber) => {
+		const value = cvc.trim();
+		if (!/^\d{3,4}$/.test(value)) return false;
+		if (!cardNumber) return true;
+		// Like OpenPay.js, cards of an unknown brand expect 3 digits
+		return value.length === (getCardBrand(guessCardType(cardNumber))?.cvvLength ?? 3);
+	},
+
+	validateExpiry: (month, year) => {
+		const monthValue = month.trim();
+		let yearValue = year.trim();
+		if (!/^\d{1,2}$/.test(monthValue) || !/^(\d{2}|\d{4})$/.test(yearValue)) return false;
+
+		const expMonth = Number.parseInt(monthValue, 10);
+		if (expMonth < 1 || expMonth > 12) return false;
+
+		if (yearValue.length === 4) {
+			yearValue = yearValue.slice(2);
+		}
+		return validators.isExpirationValid(String(expMonth), yearValue);
+	},
+
+	cardType: (cardNumber) => guessCardType(digitsOnly(cardNumber)),
+};
@@ -0,0 +1,93 @@
+import type { CountryCode, CountryConfig } from "../types/openpay";
+import { CO_STATES, MX_STATES, PE_STATES } from "./address-states";
+
+export const DEFAULT_COUNTRY: CountryCode = "PE";
+
+/**
+ * Endpoints and rules per OpenPay merchant environment
+ */
+export const COUNTRIES: Record<CountryCode, CountryConfig> = {
+	PE: {
+		code: "PE",
+		currency: "PEN",
+		scriptUrl: "https://js.openpay.pe/openpay.v1.min.js",
+		dataScriptUrl: "https://js.openpay.pe/openpay-data.v1.min.js",
+		apiUrl: "https://api.openpay.pe/v1",
+		sandboxApiUrl: "https://sandbox-api.openpay.pe/v1",
+		supportedBrands: ["visa", "visa_electron", "mastercard", "american_express", "diners_club"],
+		paymentMethods: ["card", "store"],
+		documentTypes: ["dni", "ruc", "ce", "passport"],
+		storeProvider: "PagoEfectivo",
+		installments: {
+			brands: ["visa", "mastercard", "american_express", "diners_club"],
+			payments: [2, 3, 6, 9, 12],
+			minPaymentAmount: 50,
+			interestFree: false,
+		},
+		address: {
+			requireState: true,
+			requirePostalCode: false,
+			postalCodePattern: /^\d{5}$/,
+			postalCodeLength: 5,
+			stateLabel: "department",
+			states: PE_STATES,
+		},
+	},
+	MX: {
+		code: "MX",
+		currency: "MXN",
+		scriptUrl: "https://js.openpay.mx/openpay.v1.min.js",
+		dataScriptUrl: "https://js.openpay.mx/openpay-data.v1.min.js",
+		apiUrl: "https://api.openpay.mx/v1",
+		sandboxApiUrl: "https://sandbox-api.openpay.mx/v1",
+		supportedBrands: ["visa", "visa_electron", "mastercard", "american_express", "carnet"],
+		paymentMethods: ["card", "store", "bank_account"],
+		documentTypes: ["rfc", "curp"],
+		storeProvider: "Paynet",
+		installments: {
+			brands: ["visa", "mastercard", "american_express"],
+			payments: [3, 6, 9, 12, 18],
+			minPaymentAmount: 100,
+			interestFree: true,
+		},
+		address: {
+			requireState: true,
+			requirePostalCode: true,
+			postalCodePattern: /^\d{5}$/,
+			postalCodeLength: 5,
+			stateLabel: "state",
+			states: MX_STATES,
+		},
+	},
+	CO: {
+		code: "CO",
+		currency: "COP",
+		scriptUrl: "https://js.openpay.co/openpay.v1.min.js",
+		dataScriptUrl: "https://js.openpay.co/openpay-data.v1.min.js",
+		apiUrl: "https://api.openpay.co/v1",
+		sandboxApiUrl: "https://sandbox-api.openpay.co/v1",
+		supportedBrands: ["visa", "visa_electron", "mastercard", "american_express", "diners_club"],
+		paymentMethods: ["card"],
+		documentTypes: ["passport"],
+		address: {
+			requireState: true,
+			requirePostalCode: false,
+			postalCodePattern: /^\d{6}$/,
+			postalCodeLength: 6,
+			stateLabel: "department",
+			states: CO_STATES,
+		},
+	},
+};
+
+/**
+ * Country configuration, falling back to the default merchant environment
+ */
+export const getCountryConfig = (country: CountryCode = DEFAULT_COUNTRY): CountryConfig =>
+	COUNTRIES[country];
+
+/**
+ * Whether the country's merchant environment accepts the card type
+ */
+export const isBrandSupported = (cardType: string, country?: CountryCode): boolean =>
+	(getCountryConfig(country).supportedBrands as string[]).includes(cardType);
@@ -0,0 +1,5 @@
+/**
+ * Whether the code runs in a browser with a DOM, as opposed to SSR or a server runtime
+ */
+export const isBrowser = (): boolean =>
+	typeof window !== "undefined" && typeof document !== "undefined";
@@ -0,0 +1,135 @@
+import type { PlainMessageKey } from "../i18n";
+import type { CardType, DocumentType } from "../types/openpay";
+import { CARD_BRANDS, UNKNOWN_BRAND, detectCardType } from "./card-brands";
+
+/**
+ * Display format per card type
+ */
+export interface CardFormat {
+	/** Positions after which a space is inserted */
+	gaps: number[];
+	/** Allowed card number lengths, ascending */
+	lengths: number[];
+	cvvLength: number;
+}
+
+export const CARD_FORMATS = Object.fromEntries([
+	...CARD_BRANDS.map(({ type, gaps, lengths, cvvLength }) => [type, { gaps, lengths, cvvLength }]),
+	["unknown", UNKNOWN_BRAND],
+]) as Record<CardType, CardFormat>;
+
+/**
+ * Strip everything but digits
+ */
+export const digitsOnly = (value: string): string => value.replace(/\D/g, "");
+
+/**
+ * Detect the card type from a partial or complete card number
+ */
+export const guessCardType = (cardNumber: string): CardType => detectCardType(cardNumber);
+
+/**
+ * Maximum card number length (digits only) for a card type
+ */
+export const getMaxCardLength = (cardType: CardType): number => {
+	const { lengths } = CARD_FORMATS[cardType];
+	return lengths[lengths.length - 1] ?? 19;
+};
+
+/**
+ * Group card number digits for display, e.g. "4111 1111 1111 1111" or "3782 822463 10005"
+ */
+export const formatCardNumber = (value: string, cardType = guessCardType(value)): string => {
+	const { gaps } = CARD_FORMATS[cardType];
+	const digits = digitsOnly(value).slice(0, getMaxCardLength(cardType));
+
+	let formatted = "";
+	for (let i = 0; i < digits.length; i++) {
+		if (i > 0 && gaps.includes(i)) {
+			formatted += " ";
+		}
+		formatted += digits[i];
+	}
+	return formatted;
+};
+
+/**
+ * Format expiry input as MM/YY
+ */
+export const formatExpiry = (value: string): string => {
+	let digits = digitsOnly(value).slice(0, 4);
+
+	// A leading 2-9 can only be a single-digit month
+	if (/^[2-9]/.test(digits)) {
+		digits = `0${digits}`.slice(0, 4);
+	}
+
+	if (digits.length <= 2) {
+		return digits.length === 2 && value.endsWith("/") ? `${digits}/` : digits;
+	}
+	return `${digits.slice(0, 2)}/${digits.slice(2)}`;
+};
+
+/**
+ * Split a MM/YY expiry into Card expiration fields
+ */
+export const parseExpiry = (value: string): { month: string; year: string } => {
+	const digits = digitsOnly(value);
+	return { month: digits.slice(0, 2), year: digits.slice(2, 4) };
+};
+
+/**
+ * Limit CVV input to the digits allowed by the card type
+ */
+export const formatCvv = (value: string, cardType: CardType = "unknown"): string =>
+	digitsOnly(value).slice(0, CARD_FORMATS[cardType].cvvLength);
+
+/**
+ * Drop leading and repeated spaces from a card holder name, up to 100 characters
+ */
+export const formatHolderName = (value: string): string =>
+	value
+		.replace(/^\s+/, "")
+		.replace(/\s{2,}/g, " ")
+		.slice(0, 100);
+
+/**
+ * Input format per identity document type
+ */
+export interface DocumentFormat {
+	/** Display name of the document type */
+	label: PlainMessageKey;
+	maxLength: number;
+	/** Digits only, e.g. DNI and RUC */
+	numeric: boolean;
+}
+
+export const DOCUMENT_FORMATS: Record<DocumentType, DocumentFormat> = {
+	dni: { label: "document.type.dni", maxLength: 8, numeric: true },
+	ruc: { label: "document.type.ruc", maxLength: 11, numeric: true },
+	ce: { label: "document.type.ce", maxLength: 12, numeric: false },
+	passport: { label: "document.type.passport", maxLength: 12, numeric: false },
+	rfc: { label: "document.type.rfc", maxLength: 13, numeric: false },
+	curp: { label: "document.type.curp", maxLength: 18, numeric: false },
+};
+
+/**
+ * Uppercase a document number and drop spaces, dashes and dots, up to the type's length
+ */
+export const formatDocumentNumber = (value: string, type: DocumentType): string => {
+	const { maxLength, numeric } = DOCUMENT_FORMATS[type];
+	const normalized = numeric ? digitsOnly(value) : value.toUpperCase().replace(/[^A-Z0-9Ñ&]/g, "");
+	return normalized.slice(0, maxLength);
+};
+
+/**
+ * Format an amount in a currency for display, e.g. "S/ 1,250.00"
+ */
+export const formatAmount = (amount: number, currency: string, locale?: string): string => {
+	try {
+		return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount);
+	} catch {
+		// Unknown currency codes or locales
+		return `${amount.toFixed(2)} ${currency}`;
+	}
+};
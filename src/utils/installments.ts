@@ -0,0 +1,55 @@
+import type {
+	ChargePayload,
+	CustomerDocument,
+	InstallmentPlan,
+	InstallmentRules,
+	Token,
+} from "../types/openpay";
+import { detectCardType } from "./card-brands";
+import { digitsOnly } from "./formatter";
+
+/**
+ * Whether a card number can be paid in installments under the rules
+ */
+export const isInstallmentEligible = (cardNumber: string, rules?: InstallmentRules): boolean => {
+	if (!rules) return false;
+	const digits = digitsOnly(cardNumber);
+	if (!rules.brands.includes(detectCardType(digits))) return false;
+	return !rules.bins || rules.bins.some((bin) => digits.startsWith(bin));
+};
+
+/**
+ * Installment plans available for a card number and amount; empty when the card is not eligible
+ */
+export const getInstallmentPlans = (
+	cardNumber: string,
+	amount: number,
+	rules?: InstallmentRules,
+): InstallmentPlan[] => {
+	if (!rules || !(amount > 0) || !isInstallmentEligible(cardNumber, rules)) return [];
+
+	return rules.payments
+		.filter((payments) => amount / payments >= rules.minPaymentAmount)
+		.map((payments) => ({
+			payments,
+			paymentAmount: Math.round((amount / payments) * 100) / 100,
+			total: amount,
+			interestFree: rules.interestFree,
+		}));
+};
+
+/**
+ * Token or stored card id, device session, chosen installment plan and payer document in the
+ * shape of a charge request
+ */
+export const createChargePayload = (
+	source: Token | string,
+	deviceSessionId: string,
+	installmentPlan?: InstallmentPlan | null,
+	document?: CustomerDocument | null,
+): ChargePayload => ({
+	source_id: typeof source === "string" ? source : source.data.id,
+	device_session_id: deviceSessionId,
+	...(installmentPlan && { payment_plan: { payments: installmentPlan.payments } }),
+	...(document && { document }),
+});
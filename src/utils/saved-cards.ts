@@ -0,0 +1,31 @@
+import type { CardType, SavedCard, SavedCardExpiryStatus } from "../types/openpay";
+import { normalizeCardType } from "./card-engine";
+
+/**
+ * Last four digits of a masked card number such as "411111XXXXXX1111"
+ */
+export const getLastFour = (cardNumber: string): string => cardNumber.replace(/\D/g, "").slice(-4);
+
+/**
+ * Canonical card type of a stored card's brand
+ */
+export const getSavedCardType = (card: SavedCard): CardType => normalizeCardType(card.brand);
+
+/**
+ * Whether a card has expired or expires this month or the next
+ */
+export const getCardExpiryStatus = (
+	month: string,
+	year: string,
+	now = new Date(),
+): SavedCardExpiryStatus => {
+	const expMonth = Number.parseInt(month, 10);
+	let expYear = Number.parseInt(year, 10);
+	if (Number.isNaN(expMonth) || Number.isNaN(expYear)) return "expired";
+	if (expYear < 100) expYear += 2000;
+
+	// Cards are valid through the last day of their expiration month
+	const monthsLeft = (expYear - now.getFullYear()) * 12 + (expMonth - 1 - now.getMonth());
+	if (monthsLeft < 0) return "expired";
+	return monthsLeft <= 1 ? "expiring_soon" : "valid";
+};
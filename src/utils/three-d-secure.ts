@@ -0,0 +1,60 @@
+import { AuthenticationFailedError } from "../errors";
+import type { ThreeDSecureCharge, ThreeDSecureResult } from "../types/openpay";
+
+/**
+ * Charge statuses reached once authentication went through; `in_progress` is an authorized,
+ * not yet captured charge
+ */
+const AUTHENTICATED_STATUSES = ["completed", "in_progress"];
+
+/**
+ * Authentication page to open for a charge, or undefined when it needs no 3-D Secure step
+ */
+export const getThreeDSecureUrl = (charge: ThreeDSecureCharge): string | undefined =>
+	charge.payment_method?.type === "redirect" ? charge.payment_method.url : undefined;
+
+/**
+ * Read the charge id OpenPay appends to `redirect_url` when the payer comes back.
+ * Pass the configured `redirect_url` to ignore other pages that happen to carry an `id`.
+ */
+export const parseThreeDSecureReturn = (
+	href: string,
+	redirectUrl?: string,
+): { chargeId: string } | null => {
+	let url: URL;
+	try {
+		url = new URL(href);
+	} catch {
+		return null;
+	}
+
+	if (redirectUrl) {
+		const expected = new URL(redirectUrl, url);
+		if (url.origin !== expected.origin || url.pathname !== expected.pathname) return null;
+	}
+
+	const chargeId = url.searchParams.get("id");
+	return chargeId ? { chargeId } : null;
+};
+
+/**
+ * Turn the charge fetched after authentication into a flow result
+ */
+export const getThreeDSecureResult = (charge: ThreeDSecureCharge): ThreeDSecureResult => {
+	if (AUTHENTICATED_STATUSES.includes(charge.status)) {
+		return { status: "succeeded", chargeId: charge.id, charge };
+	}
+
+	// charge_pending here means the payer never finished the bank's challenge
+	const message =
+		charge.error_message ||
+		(charge.status === "charge_pending"
+			? "3-D Secure authentication was not completed"
+			: "3-D Secure authentication failed");
+	return {
+		status: "failed",
+		chargeId: charge.id,
+		charge,
+		error: new AuthenticationFailedError(message, { code: charge.error_code ?? 0, raw: charge }),
+	};
+};
@@ -1,103 +1,252 @@
 import { z } from "zod";
+import { type Translate, defaultTranslate } from "../i18n";
+import type { CardType, CountryCode, DocumentType } from "../types/openpay";
+import { findAddressState } from "./address";
+import { detectCardBrand, getCardBrand } from "./card-brands";
+import { getCountryConfig } from "./countries";
+import { DOCUMENT_FORMATS, guessCardType } from "./formatter";
 
 /**
- * Regular expressions for card validation
+ * Brand of a complete card number, when its length is valid for that brand
  */
-export const CARD_PATTERNS = {
-	visa: /^4[0-9]{12}(?:[0-9]{3})?$/,
-	mastercard: /^5[1-5][0-9]{14}$/,
-	amex: /^3[47][0-9]{13}$/,
-	diners: /^3(?:0[0-5]|[68][0-9])[0-9]{11}$/,
-	discover: /^6(?:011|5[0-9]{2})[0-9]{12}$/,
-	visa_electron: /^(4026|417500|4508|4844|491(3|7))/,
-	maestro: /^(5018|5020|5038|6304|6759|676[1-3])/,
-} as const;
-
-/**
- * Card Types based on patterns
- */
-export type CardPatternType = keyof typeof CARD_PATTERNS;
+const getCompleteCardType = (cardNumber: string): CardType => {
+	const number = cardNumber.replace(/\s+/g, "");
+	const brand = detectCardBrand(number);
+	return brand?.lengths.includes(number.length) ? brand.type : "unknown";
+};
 
 /**
  * Address Schema
  */
-export const addressSchema = z
-	.object({
-		city: z.string().min(1, "City is required"),
-		country_code: z.string().length(2, "Country code must be 2 characters"),
-		postal_code: z.string().min(1, "Postal code is required"),
-		line1: z.string().min(1, "Address line 1 is required"),
-		line2: z.string().optional(),
-		line3: z.string().optional(),
-		state: z.string().min(1, "State is required"),
-	})
-	.strict();
+export const createGenericAddressSchema = (t: Translate = defaultTranslate) =>
+	z
+		.object({
+			city: z.string().min(1, t("address.city.required")),
+			country_code: z.string().length(2, t("address.country_code.length")),
+			postal_code: z.string().min(1, t("address.postal_code.required")),
+			line1: z.string().min(1, t("address.line1.required")),
+			line2: z.string().optional(),
+			line3: z.string().optional(),
+			state: z.string().min(1, t("address.state.required")),
+		})
+		.strict();
+
+export const addressSchema = createGenericAddressSchema();
 
 /**
- * Card Schema
+ * Address Schema with the requirements of a merchant country.
+ * Addresses in that country must name one of its states or departments.
  */
-export const cardSchema = z
-	.object({
-		card_number: z
-			.string()
-			.min(13, "Card number must be at least 13 digits")
-			.max(19, "Card number must not exceed 19 digits")
-			.refine((val) => {
-				const number = val.replace(/\s+/g, "");
-				return Object.values(CARD_PATTERNS).some((pattern) => pattern.test(number));
-			}, "Invalid card number format"),
-
-		holder_name: z
-			.string()
-			.min(3, "Holder name must be at least 3 characters")
-			.max(100, "Holder name must not exceed 100 characters")
-			.regex(/^[a-zA-Z\s]+$/, "Holder name must contain only letters and spaces"),
-
-		expiration_year: z
-			.string()
-			.length(2, "Expiration year must be 2 digits")
-			.regex(/^[0-9]{2}$/, "Expiration year must be numeric")
-			.refine((val) => {
-				const year = Number.parseInt(val, 10);
-				const currentYear = new Date().getFullYear() % 100;
-				return year >= currentYear;
-			}, "Expiration year must not be in the past"),
-
-		expiration_month: z
-			.string()
-			.length(2, "Expiration month must be 2 digits")
-			.regex(/^(0[1-9]|1[0-2])$/, "Expiration month must be between 01 and 12"),
-
-		cvv2: z
-			.string()
-			.min(3, "CVV must be at least 3 digits")
-			.max(4, "CVV must not exceed 4 digits")
-			.regex(/^\d+$/, "CVV must be numeric"),
-
-		address: addressSchema.optional(),
-	})
-	.superRefine((data, ctx) => {
-		const cardNumber = data.card_number.replace(/\s+/g, "");
-		const cvvLength = data.cvv2.length;
+export const createAddressSchema = (country?: CountryCode, t: Translate = defaultTranslate) => {
+	const config = getCountryConfig(country);
+	const rules = config.address;
+	const postalCode = z
+		.string()
+		.refine(
+			(val) => !val || !rules.postalCodePattern || rules.postalCodePattern.test(val),
+			t("address.postal_code.format"),
+		);
 
-		if (CARD_PATTERNS.amex.test(cardNumber)) {
-			if (cvvLength !== 4) {
+	return z
+		.object({
+			city: z.string().min(1, t("address.city.required")),
+			country_code: z.string().length(2, t("address.country_code.length")),
+			postal_code: rules.requirePostalCode
+				? postalCode.refine((val) => val.length > 0, t("address.postal_code.required"))
+				: postalCode.optional(),
+			line1: z.string().min(1, t("address.line1.required")),
+			line2: z.string().optional(),
+			line3: z.string().optional(),
+			state: rules.requireState
+				? z.string().min(1, t("address.state.required"))
+				: z.string().optional(),
+		})
+		.strict()
+		.superRefine((address, ctx) => {
+			// Billing addresses abroad follow their own country's rules
+			if (address.country_code.toUpperCase() !== config.code || !address.state) return;
+			if (!findAddressState(address.state, config.code)) {
 				ctx.addIssue({
 					code: z.ZodIssueCode.custom,
-					path: ["cvv2"],
-					message: "Invalid CVV length for American Express card",
-				});
-			}
-		} else {
-			if (cvvLength !== 3) {
-				ctx.addIssue({
-					code: z.ZodIssueCode.custom,
-					path: ["cvv2"],
-					message: "Invalid CVV length for card type",
+					path: ["state"],
+					message: t("address.state.invalid"),
 				});
 			}
+		});
+};
+
+/**
+ * Card fields shared by the generic and country specific card schemas
+ */
+const createCardFields = (t: Translate) => ({
+	card_number: z
+		.string()
+		.min(13, t("card_number.min", { min: 13 }))
+		.max(19, t("card_number.max", { max: 19 }))
+		.refine((val) => {
+			const number = val.replace(/\s+/g, "");
+			return /^\d+$/.test(number) && getCompleteCardType(number) !== "unknown";
+		}, t("card_number.format")),
+
+	holder_name: z
+		.string()
+		.min(3, t("holder_name.min", { min: 3 }))
+		.max(100, t("holder_name.max", { max: 100 }))
+		.regex(/^[a-zA-Z\s]+$/, t("holder_name.format")),
+
+	expiration_year: z
+		.string()
+		.length(2, t("expiration_year.length"))
+		.regex(/^[0-9]{2}$/, t("expiration_year.numeric"))
+		.refine((val) => {
+			const year = Number.parseInt(val, 10);
+			const currentYear = new Date().getFullYear() % 100;
+			return year >= currentYear;
+		}, t("expiration_year.past")),
+
+	expiration_month: z
+		.string()
+		.length(2, t("expiration_month.length"))
+		.regex(/^(0[1-9]|1[0-2])$/, t("expiration_month.range")),
+
+	cvv2: z
+		.string()
+		.min(3, t("cvv2.min", { min: 3 }))
+		.max(4, t("cvv2.max", { max: 4 }))
+		.regex(/^\d+$/, t("cvv2.numeric")),
+});
+
+/**
+ * Cross-field card rules, optionally restricted to the brands a country accepts
+ */
+const refineCard =
+	(t: Translate, supportedBrands?: CardType[]) =>
+	(
+		data: { card_number: string; cvv2: string; expiration_month: string; expiration_year: string },
+		ctx: z.RefinementCtx,
+	) => {
+		const cardNumber = data.card_number.replace(/\s+/g, "");
+		const requiredCvvLength = getCardBrand(guessCardType(cardNumber))?.cvvLength ?? 3;
+
+		if (!validators.isExpirationValid(data.expiration_month, data.expiration_year)) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["expiration_month"],
+				message: t("expiry.expired"),
+			});
 		}
-	});
+
+		if (data.cvv2.length !== requiredCvvLength) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["cvv2"],
+				message: t("cvv2.length", { digits: requiredCvvLength }),
+			});
+		}
+
+		if (supportedBrands && !supportedBrands.includes(guessCardType(cardNumber))) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["card_number"],
+				message: t("card_number.unsupported"),
+			});
+		}
+	};
+
+/**
+ * Card Schema
+ */
+export const createGenericCardSchema = (t: Translate = defaultTranslate) =>
+	z
+		.object({ ...createCardFields(t), address: createGenericAddressSchema(t).optional() })
+		.superRefine(refineCard(t));
+
+export const cardSchema = createGenericCardSchema();
+
+/**
+ * Card Schema with the address rules and accepted brands of a merchant country
+ */
+export const createCardSchema = (country?: CountryCode, t: Translate = defaultTranslate) =>
+	z
+		.object({ ...createCardFields(t), address: createAddressSchema(country, t).optional() })
+		.superRefine(refineCard(t, getCountryConfig(country).supportedBrands));
+
+export const DOCUMENT_TYPES = ["dni", "ruc", "ce", "passport", "rfc", "curp"] as const;
+
+/** Two-digit year, month and day of RFC and CURP */
+const DATE_PART = "\\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\\d|3[01])";
+
+/** Mexican state of birth in a CURP; NE for births abroad */
+const CURP_STATES =
+	"AS|BC|BS|CC|CL|CM|CS|CH|DF|DG|GT|GR|HG|JC|MC|MN|MS|NT|NL|OC|PL|QT|QR|SP|SL|SR|TC|TS|TL|VZ|YN|ZS|NE";
+
+/**
+ * Shape of a normalized document number per type
+ */
+const DOCUMENT_PATTERNS: Record<DocumentType, RegExp> = {
+	dni: /^\d{8}$/,
+	// 10 persons, 15 and 17 non-domiciled, 16 foreigners, 20 companies
+	ruc: /^(?:10|15|16|17|20)\d{9}$/,
+	ce: /^[A-Z0-9]{9,12}$/,
+	passport: /^[A-Z0-9]{6,12}$/,
+	rfc: new RegExp(`^[A-ZÑ&]{3,4}${DATE_PART}[A-Z0-9]{3}$`),
+	curp: new RegExp(
+		`^[A-Z][AEIOUX][A-Z]{2}${DATE_PART}[HMX](?:${CURP_STATES})[B-DF-HJ-NP-TV-Z]{3}[A-Z0-9]\\d$`,
+	),
+};
+
+/**
+ * Cross-field document rules: the number's format and check digit for its type
+ */
+const refineDocument =
+	(t: Translate) => (data: { type: DocumentType; number: string }, ctx: z.RefinementCtx) => {
+		if (!data.number) return;
+		const document = t(DOCUMENT_FORMATS[data.type].label);
+
+		if (!DOCUMENT_PATTERNS[data.type].test(data.number)) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["number"],
+				message: t("document.number.invalid", { document }),
+			});
+		} else if (!validators.isDocumentCheckDigitValid(data.type, data.number)) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["number"],
+				message: t("document.number.check_digit", { document }),
+			});
+		}
+	};
+
+/**
+ * Payer identity document Schema; numbers are expected uppercase, without separators
+ */
+export const createGenericDocumentSchema = (t: Translate = defaultTranslate) =>
+	z
+		.object({
+			type: z.enum(DOCUMENT_TYPES),
+			number: z.string().min(1, t("document.number.required")),
+		})
+		.strict()
+		.superRefine(refineDocument(t));
+
+export const documentSchema = createGenericDocumentSchema();
+
+/**
+ * Document Schema limited to the document types a merchant country accepts
+ */
+export const createDocumentSchema = (country?: CountryCode, t: Translate = defaultTranslate) => {
+	const { documentTypes } = getCountryConfig(country);
+	return z
+		.object({
+			type: z
+				.enum(DOCUMENT_TYPES)
+				.refine((type) => documentTypes.includes(type), t("document.type.unsupported")),
+			number: z.string().min(1, t("document.number.required")),
+		})
+		.strict()
+		.superRefine(refineDocument(t));
+};
 
 /**
  * Token Response Schema
@@ -123,12 +272,125 @@ export const tokenSchema = z
 	})
 	.strict();
 
+/**
+ * Cash payment details of a store charge: PagoEfectivo in Peru, Paynet in Mexico
+ */
+export const storePaymentMethodSchema = z
+	.object({
+		type: z.literal("store"),
+		reference: z.string(),
+		barcode_url: z.string().optional(),
+		/** Store locator for the payment network */
+		url_store: z.string().optional(),
+	})
+	.passthrough();
+
+/**
+ * SPEI transfer details of a bank_account charge
+ */
+export const bankTransferPaymentMethodSchema = z
+	.object({
+		type: z.literal("bank_transfer"),
+		clabe: z.string(),
+		bank: z.string(),
+		/** Payment reference the payer enters in their bank */
+		name: z.string(),
+		agreement: z.string().optional(),
+	})
+	.passthrough();
+
+/**
+ * Charge `payment_method`: store and bank details, or a 3-D Secure redirect
+ */
+export const paymentMethodDetailsSchema = z.union([
+	storePaymentMethodSchema,
+	bankTransferPaymentMethodSchema,
+	z
+		.object({
+			type: z.string(),
+			url: z.string().optional(),
+		})
+		.passthrough(),
+]);
+
+/**
+ * Webhook Transaction Schema
+ */
+export const webhookTransactionSchema = z
+	.object({
+		id: z.string(),
+		amount: z.number(),
+		status: z.string(),
+		method: z.string(),
+		operation_type: z.string(),
+		transaction_type: z.string(),
+		creation_date: z.string(),
+		currency: z.string().optional(),
+		authorization: z.string().nullish(),
+		description: z.string().nullish(),
+		error_message: z.string().nullish(),
+		error_code: z.number().nullish(),
+		order_id: z.string().nullish(),
+		customer_id: z.string().nullish(),
+	})
+	.passthrough();
+
+const webhookEvent = <T extends string>(type: T) =>
+	z
+		.object({
+			type: z.literal(type),
+			event_date: z.string(),
+			transaction: webhookTransactionSchema,
+		})
+		.passthrough();
+
+/**
+ * Webhook Event Schema, discriminated by `type`
+ */
+export const webhookEventSchema = z.discriminatedUnion("type", [
+	z
+		.object({
+			type: z.literal("verification"),
+			event_date: z.string(),
+			verification_code: z.string(),
+			id: z.string().optional(),
+		})
+		.passthrough(),
+	webhookEvent("charge.created"),
+	webhookEvent("charge.succeeded"),
+	webhookEvent("charge.failed"),
+	webhookEvent("charge.cancelled"),
+	webhookEvent("charge.refunded"),
+	webhookEvent("charge.rescored.to.decline"),
+	webhookEvent("payout.created"),
+	webhookEvent("payout.succeeded"),
+	webhookEvent("payout.failed"),
+	webhookEvent("spei.received"),
+]);
+
+/**
+ * Any event type webhookEventSchema does not model, e.g. chargeback.created or order.completed
+ */
+export const unknownWebhookEventSchema = z
+	.object({
+		type: z.string(),
+		event_date: z.string().optional(),
+	})
+	.passthrough();
+
+/**
+ * Whether webhookEventSchema models an event type
+ */
+export const isKnownWebhookEventType = (type: string): type is WebhookEventType =>
+	webhookEventSchema.optionsMap.has(type);
+
 /**
  * Validation Result Types
  */
 export type ValidateCardResult = z.SafeParseReturnType<unknown, z.infer<typeof cardSchema>>;
 export type ValidateAddressResult = z.SafeParseReturnType<unknown, z.infer<typeof addressSchema>>;
 export type ValidateTokenResult = z.SafeParseReturnType<unknown, z.infer<typeof tokenSchema>>;
+export type ValidateDocumentResult = z.SafeParseReturnType<unknown, z.infer<typeof documentSchema>>;
 
 /**
  * Inferred Types
@@ -136,6 +398,13 @@ export type ValidateTokenResult = z.SafeParseReturnType<unknown, z.infer<typeof
 export type Card = z.infer<typeof cardSchema>;
 export type Address = z.infer<typeof addressSchema>;
 export type Token = z.infer<typeof tokenSchema>;
+export type StorePaymentMethod = z.infer<typeof storePaymentMethodSchema>;
+export type BankTransferPaymentMethod = z.infer<typeof bankTransferPaymentMethodSchema>;
+export type PaymentMethodDetails = z.infer<typeof paymentMethodDetailsSchema>;
+export type WebhookTransaction = z.infer<typeof webhookTransactionSchema>;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookEventType = WebhookEvent["type"];
+export type UnknownWebhookEvent = z.infer<typeof unknownWebhookEventSchema>;
 
 /**
  * Validation Helper Functions
@@ -166,6 +435,46 @@ export const validators = {
 		return sum % 10 === 0;
 	},
 
+	/**
+	 * SUNAT modulo 11 check digit of a Peruvian RUC
+	 */
+	rucCheck: (ruc: string): boolean => {
+		if (!/^\d{11}$/.test(ruc)) return false;
+		const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+		const sum = weights.reduce((total, weight, i) => total + weight * Number(ruc[i]), 0);
+		// 11 - remainder, where 10 and 11 become 0 and 1
+		return (11 - (sum % 11)) % 10 === Number(ruc[10]);
+	},
+
+	/**
+	 * RENAPO check digit of a Mexican CURP
+	 */
+	curpCheck: (curp: string): boolean => {
+		if (curp.length !== 18) return false;
+		const alphabet = "0123456789ABCDEFGHIJKLMNÑOPQRSTUVWXYZ";
+		let sum = 0;
+		for (let i = 0; i < 17; i++) {
+			const value = alphabet.indexOf(curp.charAt(i));
+			if (value < 0) return false;
+			sum += value * (18 - i);
+		}
+		return (10 - (sum % 10)) % 10 === Number(curp[17]);
+	},
+
+	/**
+	 * Check digit of document types that have one (RUC, CURP); true for the others
+	 */
+	isDocumentCheckDigitValid: (type: DocumentType, number: string): boolean => {
+		switch (type) {
+			case "ruc":
+				return validators.rucCheck(number);
+			case "curp":
+				return validators.curpCheck(number);
+			default:
+				return true;
+		}
+	},
+
 	/**
 	 * Validate card expiration
 	 */
@@ -186,13 +495,8 @@ export const validators = {
 	/**
 	 * Determine card type from number
 	 */
-	getCardType: (cardNumber: string): CardPatternType | "unknown" => {
-		for (const [type, pattern] of Object.entries(CARD_PATTERNS)) {
-			if (pattern.test(cardNumber)) {
-				return type as CardPatternType;
-			}
-		}
-		return "unknown";
+	getCardType: (cardNumber: string): CardType => {
+		return getCompleteCardType(cardNumber);
 	},
 
 	/**
@@ -209,6 +513,13 @@ export const validators = {
 		return addressSchema.safeParse(addressData);
 	},
 
+	/**
+	 * Validate a payer identity document using Zod schema
+	 */
+	validateDocument: (documentData: unknown) => {
+		return documentSchema.safeParse(documentData);
+	},
+
 	/**
 	 * Validate token response using Zod schema
 	 */
@@ -216,12 +527,18 @@ export const validators = {
 		return tokenSchema.safeParse(tokenData);
 	},
 
+	/**
+	 * Validate a webhook payload using Zod schema
+	 */
+	validateWebhookEvent: (eventData: unknown) => {
+		return webhookEventSchema.safeParse(eventData);
+	},
+
 	/**
 	 * Check if a card number matches a specific card type
 	 */
-	matchesCardType: (cardNumber: string, type: CardPatternType): boolean => {
-		const pattern = CARD_PATTERNS[type];
-		return pattern.test(cardNumber);
+	matchesCardType: (cardNumber: string, type: CardType): boolean => {
+		return getCompleteCardType(cardNumber) === type;
 	},
 } as const;
 
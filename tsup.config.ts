@@ -1,21 +1,19 @@
-import { defineConfig } from "tsup";
+import { type Options, defineConfig } from "tsup";
 
-export default defineConfig({
-	entry: ["src/index.ts"],
-	format: ["esm", "cjs"],
-	dts: {
-		entry: {
-			index: "src/index.ts",
-		},
-		resolve: true,
-		compilerOptions: {
-			removeComments: true,
-			stripInternal: true,
-		},
+const dtsOptions = {
+	resolve: true,
+	compilerOptions: {
+		removeComments: true,
+		stripInternal: true,
 	},
+};
+
+const shared: Options = {
+	format: ["esm", "cjs"],
 	splitting: false,
 	sourcemap: false,
-	clean: true,
+	// Both builds write to dist concurrently; `npm run clean` empties it beforehand
+	clean: false,
 	treeshake: {
 		preset: "smallest",
 	},
@@ -38,4 +36,32 @@ export default defineConfig({
 		options.treeShaking = true;
 		options.keepNames = false;
 	},
-});
+};
+
+export default defineConfig([
+	{
+		...shared,
+		entry: { index: "src/index.ts" },
+		dts: { ...dtsOptions, entry: { index: "src/index.ts" } },
+		// React components and hooks; marks the bundle as a client boundary for RSC frameworks
+		banner: { js: '"use client";' },
+		// Rollup tree-shaking drops module directives; esbuild still tree-shakes this bundle
+		treeshake: false,
+	},
+	{
+		...shared,
+		entry: {
+			core: "src/core.ts",
+			server: "src/server/index.ts",
+			testing: "src/testing/index.ts",
+		},
+		dts: {
+			...dtsOptions,
+			entry: {
+				core: "src/core.ts",
+				server: "src/server/index.ts",
+				testing: "src/testing/index.ts",
+			},
+		},
+	},
+]);